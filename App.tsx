@@ -1,20 +1,45 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import Sidebar from './components/Sidebar';
 import ChatInterface from './components/ChatInterface';
 import LiveSession from './components/LiveSession';
+import PodcastStudio from './components/PodcastStudio';
+import UsagePanel from './components/UsagePanel';
+import Toasts from './components/Toasts';
 import { AppMode } from './types';
+import { resumeVideoJobs } from './services/videoJobs';
 
 function App() {
   const [mode, setMode] = useState<AppMode>(AppMode.CHAT);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  // Open thread per mode, so switching modes returns to where the user left off
+  const [activeThreads, setActiveThreads] = useState<Record<AppMode, string | null>>({
+    [AppMode.CHAT]: null,
+    [AppMode.IMAGE_GEN]: null,
+    [AppMode.VIDEO_GEN]: null,
+    [AppMode.LIVE]: null,
+    [AppMode.PODCAST]: null,
+  });
+
+  const selectThread = (threadMode: AppMode, threadId: string | null) => {
+    setActiveThreads(prev => ({ ...prev, [threadMode]: threadId }));
+    setMode(threadMode);
+    setShowUsage(false);
+  };
+
+  // Pick up Veo renders that were still running when the page was last closed
+  useEffect(() => { resumeVideoJobs(); }, []);
 
   return (
     <div className="flex h-screen bg-black text-white overflow-hidden font-sans">
       <Sidebar 
         currentMode={mode} 
-        setMode={setMode} 
+        setMode={(m) => { setMode(m); setShowUsage(false); }} 
         isOpen={isSidebarOpen}
         setIsOpen={setIsSidebarOpen}
+        activeThreadId={activeThreads[mode]}
+        onSelectThread={selectThread}
+        onOpenUsage={() => setShowUsage(true)}
       />
 
       <main className="flex-1 flex flex-col h-full relative">
@@ -25,15 +50,30 @@ function App() {
         </div>
 
         <div className="flex-1 overflow-hidden relative">
+          {showUsage && (
+            <UsagePanel
+              onClose={() => setShowUsage(false)}
+              onOpenThread={selectThread}
+            />
+          )}
           {mode === AppMode.LIVE ? (
-            <LiveSession />
+            <LiveSession onOpenThread={selectThread} />
+          ) : mode === AppMode.PODCAST ? (
+            <PodcastStudio chatThreadId={activeThreads[AppMode.CHAT]} />
           ) : (
-            <ChatInterface mode={mode === AppMode.CHAT ? 'CHAT' : mode === AppMode.IMAGE_GEN ? 'IMAGE_GEN' : 'VIDEO_GEN'} />
+            <ChatInterface
+              mode={mode === AppMode.CHAT ? 'CHAT' : mode === AppMode.IMAGE_GEN ? 'IMAGE_GEN' : 'VIDEO_GEN'}
+              threadId={activeThreads[mode]}
+              onThreadCreated={(id) => setActiveThreads(prev => ({ ...prev, [mode]: id }))}
+              onOpenThread={selectThread}
+            />
           )}
         </div>
       </main>
+
+      <Toasts />
     </div>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
@@ -1,33 +1,199 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Message, ChatConfig, ModelTier, ImageConfig, VideoConfig } from '../types';
-import { generateChatResponse, generateImage, generateVeoVideo, editImage, generateSpeech, transcribeAudio } from '../services/geminiService';
-import { GoogleGenAI } from '@google/genai';
+import { AppMode, Attachment, ImageGenerationInfo, ImageRef, Message, ChatConfig, ModelTier, ImageConfig, VideoConfig, VideoJob, TokenUsage, ToolCallRecord } from '../types';
+import { streamChatWithTools, generateImageBatch, editImage, summarizeConversation, uploadFile } from '../services/geminiService';
+import { CHAT_TIERS, modelFor, resolveChatModel, thinkingBudgetOptions, validateChatConfig, videoModelFor } from '../services/models';
+import { PlannedRequest, checkBudget, confirmBudget, formatCost, formatTokens, recordUsage, tokenUsage } from '../services/usage';
+import { buildChatHistory, estimateTokens, getHistoryBudget, limitInlineData, messageToContent, withSummary } from '../services/chatHistory';
+import { createThread, deleteMessage, getThread, loadMessages, loadMessageBlobs, saveMessage, setThreadPersona } from '../services/conversationStore';
+import Markdown from './Markdown';
+import GroundingSources from './GroundingSources';
+import { insertCitations } from '../services/grounding';
+import MessageAttachments from './MessageAttachments';
+import ToolCallList from './ToolCallList';
+import PersonaPicker from './PersonaPicker';
+import DictationButton from './DictationButton';
+import SpeechPlayer from './SpeechPlayer';
+import ThreadExportMenu from './ThreadExportMenu';
+import { SPEECH_MIME_TYPE, hasSpeechAudio, speakableText, synthesizeSpeech } from '../services/speech';
+import { findPersona, getDefaultPersonaId } from '../services/personas';
+import ImageStudioControls from './ImageStudioControls';
+import ImageGallery from './ImageGallery';
+import { findPreset } from '../services/imagePresets';
+import VideoJobCard from './VideoJobCard';
+import VideoStudioControls from './VideoStudioControls';
+import { DEFAULT_VIDEO_CONFIG, validateVideoRequest } from '../services/videoOptions';
+import { cancelVideoJob, isJobFinished, jobResultMessage, listVideoJobs, submitVideoJob, subscribeVideoJobs } from '../services/videoJobs';
+import { parentImageRef, resolveImageRef, sameImageRef } from '../services/imageEdits';
+import { toAIError } from '../services/errors';
+import { confirmToast, showToast } from '../services/toasts';
+import { ACCEPT_ATTRIBUTE, INLINE_LIMIT_BYTES, PendingAttachment, attachmentIcon, formatBytes, prepareAttachments, validateFiles } from '../services/attachments';
 
 interface ChatInterfaceProps {
   mode: 'CHAT' | 'IMAGE_GEN' | 'VIDEO_GEN';
+  threadId: string | null;
+  onThreadCreated: (threadId: string) => void;
+  onOpenThread: (mode: AppMode, threadId: string) => void;
 }
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ mode }) => {
-  const [messages, setMessages] = useState<Message[]>([
-    { id: '1', role: 'model', text: `Hello! I am Nano-Banana. How can I assist you today?`, timestamp: Date.now() }
-  ]);
+const greeting = (): Message => (
+  { id: '1', role: 'model', text: `Hello! I am Nano-Banana. How can I assist you today?`, timestamp: Date.now() }
+);
+
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ mode, threadId, onThreadCreated, onOpenThread }) => {
+  const [messages, setMessages] = useState<Message[]>([greeting()]);
   const [inputText, setInputText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [files, setFiles] = useState<{data: string, mimeType: string, preview: string}[]>([]);
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+  const [files, setFiles] = useState<PendingAttachment[]>([]);
+  const [attachError, setAttachError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  // Image being edited; set explicitly from an image's "Edit" action, never guessed from the prompt
+  const [editSource, setEditSource] = useState<ImageRef | null>(null);
+  const [comparingId, setComparingId] = useState<string | null>(null);
+  // Hands-free: dictation sends straight away and the reply is read aloud
+  const [handsFree, setHandsFree] = useState(false);
+  // Read aloud: progress or error for one message, and the message whose new audio should start playing
+  const [speechStatus, setSpeechStatus] = useState<{ messageId: string; text: string; isError?: boolean } | null>(null);
+  const [autoPlayId, setAutoPlayId] = useState<string | null>(null);
   
   // Settings
   const [config, setConfig] = useState<ChatConfig>({
     useSearch: false,
     useMaps: false,
     useThinking: false,
-    modelTier: ModelTier.STANDARD
+    modelTier: ModelTier.STANDARD,
+    personaId: getDefaultPersonaId()
   });
   
-  const [imgConfig, setImgConfig] = useState<ImageConfig>({ aspectRatio: '1:1', size: '1K' });
-  const [vidConfig, setVidConfig] = useState<VideoConfig>({ aspectRatio: '16:9', resolution: '720p' });
+  const [imgConfig, setImgConfig] = useState<ImageConfig>({ aspectRatio: '1:1', size: '1K', count: 1 });
+  const [showGallery, setShowGallery] = useState(false);
+  const [vidConfig, setVidConfig] = useState<VideoConfig>(DEFAULT_VIDEO_CONFIG);
+  const [videoJobs, setVideoJobs] = useState<VideoJob[]>(listVideoJobs);
+
+  // Summary of turns that fell out of the history budget, keyed by the last summarized message
+  const summaryRef = useRef<{ uptoId: string; text: string } | null>(null);
+
+  // Thread currently shown; set before notifying the parent about threads we create ourselves
+  const currentThreadRef = useRef<string | null>(null);
+  // Mode it belongs to; one instance serves all three modes, so a new mode starts afresh
+  // even when neither mode has a thread open
+  const currentModeRef = useRef(mode);
+
+  useEffect(() => {
+    if (threadId === currentThreadRef.current && mode === currentModeRef.current) return;
+    currentThreadRef.current = threadId;
+    currentModeRef.current = mode;
+    summaryRef.current = null;
+    setEditSource(null);
+
+    if (!threadId) {
+      setMessages([greeting()]);
+      setConfig(prev => ({ ...prev, personaId: getDefaultPersonaId() }));
+      return;
+    }
+
+    let cancelled = false;
+    getThread(threadId).then(thread => {
+      if (!cancelled) setConfig(prev => ({ ...prev, personaId: thread?.personaId || getDefaultPersonaId() }));
+    }).catch(e => console.error("Failed to load thread", e));
+    // Heavy payloads are read as their messages scroll into view; see `loadPayloads`
+    loadMessages(threadId).then((loaded) => {
+      if (!cancelled) setMessages([greeting(), ...loaded]);
+    }).catch(e => {
+      console.error("Failed to load thread", e);
+      showToast("Couldn't load this conversation.", 'error');
+    });
+
+    return () => { cancelled = true; };
+  }, [threadId, mode]);
+
+  // Stored payloads of a message; requests for one already being read share that read.
+  // Failures leave the message as it was, so the next request tries again
+  const payloadsRef = useRef(new Map<string, Promise<Partial<Message> | null>>());
+  const loadPayloads = async (msg: Message): Promise<Message> => {
+    if (!msg.storedBlobs) return msg;
+    let pending = payloadsRef.current.get(msg.id);
+    if (!pending) {
+      pending = loadMessageBlobs(msg.id)
+        .catch(e => {
+          console.error("Failed to load message media", e);
+          return null;
+        })
+        .finally(() => payloadsRef.current.delete(msg.id));
+      payloadsRef.current.set(msg.id, pending);
+    }
+    const blobs = await pending;
+    if (!blobs) return msg;
+    setMessages(prev => prev.map(m => m.id === msg.id && m.storedBlobs ? { ...m, ...blobs, storedBlobs: undefined } : m));
+    return { ...msg, ...blobs, storedBlobs: undefined };
+  };
+
+  // Rows still missing their payloads load them when they come near the viewport
+  const payloadObserverRef = useRef<IntersectionObserver | null>(null);
+  const unloadedRowsRef = useRef(new Map<Element, Message>());
+  const observeRow = (msg: Message) => (el: HTMLDivElement | null) => {
+    if (!el || !msg.storedBlobs) return;
+    if (typeof IntersectionObserver === 'undefined') {
+      loadPayloads(msg);
+      return;
+    }
+    payloadObserverRef.current ??= new IntersectionObserver(entries => entries.forEach(entry => {
+      const row = unloadedRowsRef.current.get(entry.target);
+      if (entry.isIntersecting && row) loadPayloads(row);
+    }), { rootMargin: '800px 0px' });
+    const observer = payloadObserverRef.current;
+    unloadedRowsRef.current.set(el, msg);
+    observer.observe(el);
+    return () => {
+      unloadedRowsRef.current.delete(el);
+      observer.unobserve(el);
+    };
+  };
+
+  // The edit source and the "before" of a comparison are shown away from their own rows
+  useEffect(() => {
+    const shownElsewhere = [editSource?.messageId, messages.find(m => m.id === comparingId)?.editSource?.messageId];
+    messages.filter(m => m.storedBlobs && shownElsewhere.includes(m.id)).forEach(loadPayloads);
+  }, [editSource, comparingId, messages]);
+
+  // Show a message in the open thread, replacing an earlier version with the same id
+  const showMessage = (targetThreadId: string | null, msg: Message) => {
+    if (currentThreadRef.current !== targetThreadId) return;
+    setMessages(prev => prev.some(m => m.id === msg.id) ? prev.map(m => m.id === msg.id ? msg : m) : [...prev, msg]);
+  };
+
+  const appendMessage = (targetThreadId: string | null, msg: Message) => {
+    showMessage(targetThreadId, msg);
+    if (targetThreadId) {
+      saveMessage(targetThreadId, msg).catch(e => {
+        console.error("Failed to save message", e);
+        showToast("Couldn't save the latest message; it will be lost on reload.", 'error');
+      });
+    }
+  };
+
+  const removeMessage = (targetThreadId: string | null, messageId: string) => {
+    if (currentThreadRef.current === targetThreadId) setMessages(prev => prev.filter(m => m.id !== messageId));
+    if (targetThreadId) deleteMessage(messageId).catch(e => console.error("Failed to delete message", e));
+  };
+
+  useEffect(() => subscribeVideoJobs(() => setVideoJobs(listVideoJobs())), []);
+
+  // Swap placeholders for results as background renders end (the queue has already saved them)
+  useEffect(() => {
+    const finished = new Map<string, VideoJob>(videoJobs.filter(isJobFinished).map(j => [j.id, j]));
+    if (!messages.some(m => m.videoJobId && finished.has(m.videoJobId))) return;
+    setMessages(prev => prev.map(m => {
+      const job = m.videoJobId ? finished.get(m.videoJobId) : undefined;
+      return job ? jobResultMessage(job) || m : m;
+    }));
+  }, [videoJobs, messages]);
+
+  const abortRef = useRef<AbortController | null>(null);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   const scrollToBottom = () => messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   useEffect(scrollToBottom, [messages]);
@@ -42,115 +208,384 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ mode }) => {
     }
   }, [config.useMaps]);
 
-  const handleSend = async () => {
-    if ((!inputText.trim() && files.length === 0) || isLoading) return;
+  // `inlineBytes` is what is left of the request size limit after this turn's own attachments
+  // Summarizing is part of sending, so rather than ask again it is skipped (and the old turns
+  // just dropped) when it would go over the budget
+  const buildHistory = async (messages: Message[], tier: ModelTier, inlineBytes: number, threadId: string | null) => {
+    const { contents, dropped } = buildChatHistory(messages, getHistoryBudget(tier), { inlineBytes, chosen: editSource });
+    if (dropped.length === 0) return contents;
+
+    const lastDropped = dropped[dropped.length - 1];
+    if (summaryRef.current?.uptoId !== lastDropped.id) {
+      // Extend the previous summary if it still covers a prefix of what was dropped
+      // (a tier switch to a larger budget can move that boundary back into the history)
+      const coveredIdx = summaryRef.current ? dropped.findIndex(m => m.id === summaryRef.current!.uptoId) : -1;
+      const previous = coveredIdx >= 0 ? summaryRef.current : null;
+      const fresh = limitInlineData(dropped.slice(coveredIdx + 1).map(m => messageToContent(m)).filter((c): c is NonNullable<typeof c> => !!c));
+      if (checkBudget({ kind: 'summary', promptTokens: fresh.reduce((sum, c) => sum + estimateTokens(c), 0) })) return contents;
+      try {
+        const text = await summarizeConversation(fresh, previous?.text, threadId);
+        summaryRef.current = { uptoId: lastDropped.id, text };
+      } catch (e) {
+        console.error("History summarization failed", e);
+      }
+    }
+    return summaryRef.current?.uptoId === lastDropped.id ? withSummary(contents, summaryRef.current.text) : contents;
+  };
+
+  // Attached images become the start/end frames of a video
+  const videoProblems = mode === 'VIDEO_GEN'
+    ? validateVideoRequest(vidConfig, files.filter(f => f.mimeType.startsWith('image/')))
+    : [];
+  const chatModel = resolveChatModel(config);
+  const chatProblems = mode === 'CHAT' ? validateChatConfig(config) : [];
+
+  // `spoken` is a hands-free dictation sent without going through the textarea; `failed` is an
+  // error message whose request should be sent again (its reply then takes the error's place)
+  const handleSend = async (spoken?: string, failed?: Message) => {
+    const retried = failed?.retryOf && messages.find(m => m.id === failed.retryOf!.messageId);
+    if (failed && !retried) return;
+    const text = retried ? retried.text || '' : spoken ?? inputText;
+    if ((!text.trim() && files.length === 0 && !retried) || isLoading) return;
+    const problems = [...videoProblems, ...chatProblems];
+    if (problems.length > 0) {
+      setAttachError(problems.join('\n'));
+      return;
+    }
+    const requestEdit = failed ? failed.retryOf?.editSource ?? null : editSource;
+    const planned: PlannedRequest = requestEdit && mode !== 'VIDEO_GEN' ? { kind: 'edit' }
+      : mode === 'CHAT' ? { kind: 'chat', config }
+      : mode === 'IMAGE_GEN' ? { kind: 'image', config: imgConfig }
+      : { kind: 'video', config: vidConfig };
+    const budget = checkBudget(planned);
+    if (budget?.block) {
+      setAttachError(budget.message);
+      return;
+    }
+    if (budget && !(await confirmToast(budget.message, 'Send'))) return;
+
+    setAttachError(null);
+    setIsLoading(true);
+
+    // The history, a retried request and the image being edited may sit in rows not scrolled to yet
+    const loaded = await Promise.all(messages.map(loadPayloads));
+    const retriedIndex = retried ? messages.indexOf(retried) : -1;
+    const request = retriedIndex >= 0 ? loaded[retriedIndex] : undefined;
+
+    let attachments: Attachment[];
+    if (request) {
+      attachments = request.attachments || [];
+    } else {
+      if (spoken === undefined) setInputText('');
+      const currentFiles = [...files];
+      setFiles([]); // Clear inputs
+      try {
+        attachments = await prepareAttachments(currentFiles, uploadFile);
+      } catch (err: any) {
+        // Give the user their draft back so nothing is lost
+        setAttachError(`Upload failed: ${err.message || 'unknown error'}`);
+        setInputText(text);
+        setFiles(currentFiles);
+        setIsLoading(false);
+        return;
+      }
+      currentFiles.forEach(f => f.preview && URL.revokeObjectURL(f.preview));
+    }
+    const imageAttachments = attachments.filter(a => a.mimeType.startsWith('image/') && a.data);
+    const editRef = mode !== 'VIDEO_GEN' ? requestEdit : null;
+    const editImageData = editRef ? resolveImageRef(loaded, editRef) : undefined;
 
-    const userMsg: Message = {
+    const userMsg: Message = request || {
       id: Date.now().toString(),
       role: 'user',
-      text: inputText,
-      image: files.find(f => f.mimeType.startsWith('image'))?.data, // For UI display
+      text,
+      attachments: attachments.length > 0 ? attachments : undefined,
       timestamp: Date.now()
     };
 
-    setMessages(prev => [...prev, userMsg]);
-    setInputText('');
-    const currentFiles = [...files];
-    setFiles([]); // Clear inputs
-    setIsLoading(true);
+    // History must be built from the messages before this turn
+    const priorMessages = request ? loaded.slice(0, retriedIndex) : loaded;
+
+    let sendThreadId = currentThreadRef.current;
+    if (!sendThreadId) {
+      const appMode = mode === 'CHAT' ? AppMode.CHAT : mode === 'IMAGE_GEN' ? AppMode.IMAGE_GEN : AppMode.VIDEO_GEN;
+      try {
+        sendThreadId = (await createThread(appMode, undefined, mode === 'CHAT' ? config.personaId : undefined)).id;
+        currentThreadRef.current = sendThreadId;
+        onThreadCreated(sendThreadId);
+      } catch (e) {
+        // Keep chatting unsaved if storage is unavailable (e.g. private browsing)
+        console.error("Failed to create thread", e);
+        showToast("Browser storage is unavailable, so this conversation won't be saved.", 'error');
+      }
+    }
+    if (!retried) appendMessage(sendThreadId, userMsg);
 
+    const modelMsgId = failed ? failed.id : (Date.now() + 1).toString();
     try {
       let responseText = '';
+      let thoughts = '';
+      let toolCalls: ToolCallRecord[] = [];
       let generatedImage = undefined;
-      let videoUri = undefined;
+      let generatedMimeType = undefined;
+      let variants = undefined;
+      let generation = undefined;
       let groundingData = undefined;
+      let groundingSupports = undefined;
+      let searchQueries = undefined;
+      let usage: TokenUsage | undefined;
+      let imageCount = 0;
 
-      if (mode === 'CHAT') {
-         // Check for explicit "Edit" intent if image is attached
-         const isEdit = currentFiles.length > 0 && inputText.toLowerCase().includes('edit');
-         
-         if (isEdit) {
-            const res = await editImage(userMsg.text || 'Edit this image', currentFiles[0].data, currentFiles[0].mimeType);
-            // Check candidates for image part
-             for (const part of res.candidates?.[0]?.content?.parts || []) {
-                if (part.inlineData) {
-                    generatedImage = part.inlineData.data;
-                } else if (part.text) {
-                    responseText += part.text;
-                }
+      if (editRef) {
+         if (!editImageData) throw new Error("The image to edit is no longer available.");
+         // Image attachments sent alongside an edit act as references
+         const references = attachments
+           .filter(a => a.mimeType.startsWith('image/') && a.data)
+           .map(a => ({ data: a.data!, mimeType: a.mimeType }));
+         const res = await editImage(userMsg.text || 'Edit this image', editImageData, references);
+         for (const part of res.candidates?.[0]?.content?.parts || []) {
+            if (part.inlineData) {
+                generatedImage = part.inlineData.data;
+                generatedMimeType = part.inlineData.mimeType;
+            } else if (part.text) {
+                responseText += part.text;
+            }
+         }
+         imageCount = generatedImage ? 1 : 0;
+         if (res.usageMetadata) usage = tokenUsage(modelFor('edit').id, res.usageMetadata, { count: imageCount, size: '1K' });
+      } else if (mode === 'CHAT') {
+         const turnBytes = attachments.reduce((sum, a) => sum + (a.data ? a.size : 0), 0);
+         const history = await buildHistory(priorMessages, config.modelTier, Math.max(0, INLINE_LIMIT_BYTES - turnBytes), sendThreadId);
+         const controller = new AbortController();
+         abortRef.current = controller;
+         setStreamingId(modelMsgId);
+
+         const showPartial = () => showMessage(sendThreadId, {
+           id: modelMsgId,
+           role: 'model',
+           text: responseText,
+           thoughts: thoughts || undefined,
+           toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+           isThinking: !responseText,
+           grounding: groundingData,
+           groundingSupports,
+           searchQueries,
+           timestamp: Date.now()
+         });
+
+         try {
+           const stream = streamChatWithTools(userMsg.text || '', history, attachments, config, location, controller.signal, (records) => {
+             toolCalls = [...toolCalls, ...records];
+             showPartial();
+           }, (total) => { usage = total; });
+           for await (const chunk of stream) {
+             for (const part of chunk.candidates?.[0]?.content?.parts || []) {
+               if (!part.text) continue;
+               if (part.thought) thoughts += part.text;
+               else responseText += part.text;
              }
-         } else {
-            const res = await generateChatResponse(userMsg.text || '', [], currentFiles, config, location);
-            responseText = res.text || '';
-            groundingData = res.candidates?.[0]?.groundingMetadata?.groundingChunks;
+             const metadata = chunk.candidates?.[0]?.groundingMetadata;
+             groundingData = metadata?.groundingChunks || groundingData;
+             groundingSupports = metadata?.groundingSupports || groundingSupports;
+             searchQueries = metadata?.webSearchQueries || searchQueries;
+             showPartial();
+           }
+         } catch (streamErr) {
+           // Stopping keeps whatever arrived so far
+           if (!controller.signal.aborted) {
+             // Tokens streamed before the failure are billed all the same
+             if (usage) recordUsage({ ...usage, threadId: sendThreadId, kind: 'chat' });
+             throw streamErr;
+           }
+           if (!responseText) responseText = '_Stopped._';
+         } finally {
+           abortRef.current = null;
+           setStreamingId(null);
          }
 
       } else if (mode === 'IMAGE_GEN') {
-         const res = await generateImage(userMsg.text || 'Generate an image', imgConfig);
-         for (const part of res.candidates?.[0]?.content?.parts || []) {
-             if (part.inlineData) {
-                 generatedImage = part.inlineData.data;
-             }
-             if (part.text) responseText += part.text;
+         const batch = await generateImageBatch(userMsg.text || 'Generate an image', imgConfig);
+         generation = batch.generation;
+         responseText = batch.text;
+         usage = batch.usage;
+         imageCount = batch.images.length;
+         if (batch.images.length === 1) {
+             generatedImage = batch.images[0].data;
+             generatedMimeType = batch.images[0].mimeType;
+             // The survivor of a partly failed batch may not be variant 1; keep its own seed
+             generation = { ...generation, seed: batch.images[0].seed };
+         } else {
+             variants = batch.images;
+         }
+         if (batch.failed > 0) {
+             responseText += `${responseText ? '\n\n' : ''}_${batch.failed} of ${imgConfig.count} variants failed._`;
          }
       } else if (mode === 'VIDEO_GEN') {
-         const blob = await generateVeoVideo(userMsg.text || 'Generate video', vidConfig, currentFiles[0] ? { data: currentFiles[0].data, mimeType: currentFiles[0].mimeType } : undefined);
-         videoUri = URL.createObjectURL(blob);
-         responseText = "Here is your generated video using Veo 3.";
+         // Renders take minutes; the job queue replaces these placeholders as they end
+         if (attachments.some(a => a.mimeType.startsWith('image/') && !a.data)) {
+           throw new Error("Frame images that are too large to send inline can't be used for a video. Attach smaller images.");
+         }
+         const [first, last] = imageAttachments.map(a => ({ data: a.data!, mimeType: a.mimeType }));
+         const videoModel = videoModelFor(vidConfig.model).label;
+         for (let i = 0; i < vidConfig.count; i++) {
+           const job = submitVideoJob({
+             threadId: sendThreadId,
+             messageId: `${modelMsgId}-${i}`,
+             prompt: userMsg.text || 'Generate video',
+             config: vidConfig,
+             frames: { first, last }
+           });
+           appendMessage(sendThreadId, {
+             id: job.messageId,
+             role: 'model',
+             text: vidConfig.count > 1
+               ? `Rendering video ${i + 1} of ${vidConfig.count} with ${videoModel}. You can keep chatting in the meantime.`
+               : `Rendering your video with ${videoModel}. You can keep chatting in the meantime.`,
+             videoJobId: job.id,
+             timestamp: job.createdAt
+           });
+         }
+         // The new placeholders stand in for the error being retried
+         if (failed) removeMessage(sendThreadId, failed.id);
+         return;
       }
 
-      setMessages(prev => [...prev, {
-        id: (Date.now() + 1).toString(),
+      const reply: Message = {
+        id: modelMsgId,
         role: 'model',
         text: responseText,
+        thoughts: thoughts || undefined,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
         image: generatedImage,
-        videoUri: videoUri,
+        imageMimeType: generatedMimeType,
+        variants,
+        generation,
+        editSource: editRef && generatedImage ? editRef : undefined,
         grounding: groundingData,
-        timestamp: Date.now()
-      }]);
+        groundingSupports,
+        searchQueries,
+        usage,
+        timestamp: failed ? failed.timestamp : Date.now()
+      };
+      appendMessage(sendThreadId, reply);
+      if (usage) {
+        recordUsage({ ...usage, threadId: sendThreadId, kind: planned.kind, images: imageCount || undefined });
+      }
 
-    } catch (err: any) {
-      setMessages(prev => [...prev, {
-        id: Date.now().toString(),
+      if (spoken !== undefined && responseText) readAloud(reply);
+
+      // Keep iterating on the newest version of the chain
+      if (editRef && generatedImage && currentThreadRef.current === sendThreadId) {
+        setEditSource({ messageId: modelMsgId });
+      }
+
+    } catch (err) {
+      console.error("Request failed", err);
+      const error = toAIError(err);
+      // Drop any partially streamed reply in favour of the error
+      setMessages(prev => prev.filter(m => m.id !== modelMsgId));
+      appendMessage(sendThreadId, {
+        id: modelMsgId,
         role: 'model',
-        text: `Error: ${err.message || 'Something went wrong.'}`,
-        timestamp: Date.now()
-      }]);
+        text: `Error: ${error.message}`,
+        isError: true,
+        errorKind: error.kind,
+        retryOf: { messageId: userMsg.id, editSource: editRef || undefined },
+        timestamp: failed ? failed.timestamp : Date.now()
+      });
     } finally {
       setIsLoading(false);
     }
   };
 
+  const stopGeneration = () => abortRef.current?.abort();
+
+  // A variant's own seed reproduces it as the first image of a new batch
+  const reuseGeneration = (g: ImageGenerationInfo, seed = g.seed) => {
+    setImgConfig({ ...imgConfig, aspectRatio: g.aspectRatio, size: g.size, stylePreset: g.stylePreset, negativePrompt: g.negativePrompt, seed });
+    setInputText(g.prompt);
+  };
+
+  const handleTranscript = (text: string) => {
+    setAttachError(null);
+    if (handsFree && mode === 'CHAT') {
+      handleSend(text);
+      return;
+    }
+    // Land in the textarea for review
+    setInputText(prev => prev.trim() ? `${prev.trimEnd()} ${text}` : text);
+    textareaRef.current?.focus();
+  };
+
+  const addFiles = (newFiles: File[]) => {
+    if (newFiles.length === 0) return;
+    const { accepted, errors } = validateFiles(newFiles, files.length);
+    setFiles(prev => [...prev, ...accepted]);
+    setAttachError(errors.length > 0 ? errors.join('\n') : null);
+  };
+
+  const removeFile = (id: string) => {
+    setFiles(prev => prev.filter(f => {
+      if (f.id === id && f.preview) URL.revokeObjectURL(f.preview);
+      return f.id !== id;
+    }));
+  };
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64 = (reader.result as string).split(',')[1];
-        setFiles([{
-            data: base64,
-            mimeType: file.type,
-            preview: reader.result as string
-        }]);
-      };
-      reader.readAsDataURL(file);
+    addFiles(e.target.files ? Array.from(e.target.files) : []);
+    e.target.value = ''; // allow picking the same file again
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const pasted: File[] = Array.from(e.clipboardData.files as FileList);
+    if (pasted.length > 0) {
+      e.preventDefault();
+      addFiles(pasted);
     }
   };
 
-  const playTTS = async (text: string) => {
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files as FileList));
+  };
+
+  // Generated audio is cached on the message, so replaying it costs nothing
+  const readAloud = async (msg: Message, voice = findPersona(config.personaId).voice) => {
+    const targetThreadId = currentThreadRef.current;
+    if (!(await confirmBudget({ kind: 'speech', characters: speakableText(msg.text || '').length }, 'Read aloud'))) return;
+    setSpeechStatus({ messageId: msg.id, text: 'Generating speech...' });
     try {
-        const audioBase64 = await generateSpeech(text);
-        if (audioBase64) {
-             const audio = new Audio(`data:audio/mp3;base64,${audioBase64}`);
-             audio.play();
-        }
-    } catch (e) {
-        alert("TTS Failed");
+      const audioData = await synthesizeSpeech(msg.text || '', voice, targetThreadId, (done, total) => {
+        if (total > 1) setSpeechStatus({ messageId: msg.id, text: `Generating speech (${done + 1}/${total})...` });
+      });
+      setSpeechStatus(null);
+      setAutoPlayId(msg.id);
+      appendMessage(targetThreadId, { ...msg, audioData, audioMimeType: SPEECH_MIME_TYPE, speechVoice: voice });
+    } catch (e: any) {
+      console.error("TTS failed", e);
+      setSpeechStatus({ messageId: msg.id, text: `Read aloud failed: ${e.message || 'unknown error'}`, isError: true });
     }
   };
 
   return (
-    <div className="flex flex-col h-full bg-gray-900 text-white relative">
+    <div
+      className="flex flex-col h-full bg-gray-900 text-white relative"
+      onDragOver={(e) => { if (e.dataTransfer.types.includes('Files')) { e.preventDefault(); setIsDragging(true); } }}
+      onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false); }}
+      onDrop={handleDrop}
+    >
+      {showGallery && (
+        <ImageGallery
+          onClose={() => setShowGallery(false)}
+          onOpenThread={(threadMode, id) => { setShowGallery(false); onOpenThread(threadMode, id); }}
+        />
+      )}
+      {isDragging && (
+        <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/70 border-4 border-dashed border-yellow-500 rounded-lg pointer-events-none">
+          <span className="text-xl text-yellow-400 font-bold">Drop files to attach</span>
+        </div>
+      )}
       
       {/* Header / Config Bar */}
       <div className="h-16 border-b border-gray-800 flex items-center px-6 justify-between shrink-0">
@@ -161,10 +596,36 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ mode }) => {
          <div className="flex items-center space-x-4 text-sm">
            {mode === 'CHAT' && (
              <>
-                <label className="flex items-center space-x-2 cursor-pointer">
+                <PersonaPicker
+                  value={findPersona(config.personaId).id}
+                  onChange={(personaId) => {
+                    setConfig({ ...config, personaId });
+                    if (currentThreadRef.current) {
+                      setThreadPersona(currentThreadRef.current, personaId).catch(e => console.error("Failed to save persona", e));
+                    }
+                  }}
+                />
+                {chatProblems.length > 0 && (
+                  <span className="text-xs text-red-400 cursor-help" title={chatProblems.join('\n')}>⚠️</span>
+                )}
+                <label
+                  className="flex items-center space-x-2 cursor-pointer"
+                  title={chatModel.thinking?.optional === false ? `${chatModel.label} always thinks; this shows its thoughts and sets the budget.` : undefined}
+                >
                     <input type="checkbox" checked={config.useThinking} onChange={e => setConfig({...config, useThinking: e.target.checked})} className="accent-yellow-500" />
                     <span className={config.useThinking ? "text-yellow-400 font-bold" : "text-gray-400"}>🧠 Think</span>
                 </label>
+                {config.useThinking && chatModel.thinking && (
+                  <select
+                    className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs"
+                    value={config.thinkingBudget ?? ''}
+                    onChange={e => setConfig({ ...config, thinkingBudget: e.target.value ? parseInt(e.target.value, 10) : undefined })}
+                    title="Thinking budget (tokens)"
+                  >
+                    <option value="">Max budget</option>
+                    {thinkingBudgetOptions(chatModel).map(b => <option key={b} value={b}>{b / 1024}k tokens</option>)}
+                  </select>
+                )}
                 <label className="flex items-center space-x-2 cursor-pointer hidden md:flex">
                     <input type="checkbox" checked={config.useSearch} onChange={e => setConfig({...config, useSearch: e.target.checked})} className="accent-blue-500" />
                     <span className={config.useSearch ? "text-blue-400" : "text-gray-400"}>🌐 Search</span>
@@ -176,58 +637,174 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ mode }) => {
                 <select 
                   className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs"
                   value={config.modelTier}
-                  onChange={(e) => setConfig({...config, modelTier: e.target.value as ModelTier})}
+                  onChange={(e) => {
+                    // A budget the new model doesn't offer falls back to its maximum
+                    const modelTier = e.target.value as ModelTier;
+                    const offered = thinkingBudgetOptions(modelFor(`chat.${modelTier}`));
+                    const thinkingBudget = config.thinkingBudget !== undefined && offered.includes(config.thinkingBudget) ? config.thinkingBudget : undefined;
+                    setConfig({ ...config, modelTier, thinkingBudget });
+                  }}
                 >
-                    <option value={ModelTier.FAST}>Flash-Lite (Fast)</option>
-                    <option value={ModelTier.STANDARD}>Flash (Standard)</option>
-                    <option value={ModelTier.PRO}>Pro 3 (Smart)</option>
+                    {CHAT_TIERS.map(tier => <option key={tier} value={tier}>{modelFor(`chat.${tier}`).label}</option>)}
                 </select>
              </>
            )}
            {mode === 'IMAGE_GEN' && (
-              <select className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs"
-                 value={imgConfig.aspectRatio} onChange={e => setImgConfig({...imgConfig, aspectRatio: e.target.value as any})}>
-                  <option value="1:1">1:1 Square</option>
-                  <option value="16:9">16:9 Landscape</option>
-                  <option value="9:16">9:16 Portrait</option>
-              </select>
+              <ImageStudioControls config={imgConfig} onChange={setImgConfig} onOpenGallery={() => setShowGallery(true)} />
+           )}
+           {mode === 'VIDEO_GEN' && videoJobs.some(j => !isJobFinished(j)) && (
+              <span className="text-xs text-yellow-400" title="Videos rendering in the background">
+                ⏳ {videoJobs.filter(j => !isJobFinished(j)).length} rendering
+              </span>
            )}
            {mode === 'VIDEO_GEN' && (
-              <select className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs"
-                 value={vidConfig.aspectRatio} onChange={e => setVidConfig({...vidConfig, aspectRatio: e.target.value as any})}>
-                  <option value="16:9">16:9 Landscape</option>
-                  <option value="9:16">9:16 Portrait</option>
-              </select>
+              <VideoStudioControls config={vidConfig} onChange={setVidConfig} problems={videoProblems} />
            )}
+           {threadId && <ThreadExportMenu threadId={threadId} />}
          </div>
       </div>
 
       {/* Messages Area */}
       <div className="flex-1 overflow-y-auto p-4 space-y-6">
         {messages.map((msg) => (
-          <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+          <div key={msg.id} ref={observeRow(msg)} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
             <div className={`max-w-[85%] rounded-2xl p-4 ${
               msg.role === 'user' 
                 ? 'bg-yellow-500 text-black rounded-tr-none' 
-                : 'bg-gray-800 text-gray-100 rounded-tl-none border border-gray-700'
+                : `bg-gray-800 text-gray-100 rounded-tl-none border ${msg.isError ? 'border-red-900' : 'border-gray-700'}`
             }`}>
               
               {/* User Input Image */}
               {msg.image && msg.role === 'user' && (
-                 <img src={`data:image/jpeg;base64,${msg.image}`} alt="upload" className="max-h-60 rounded-lg mb-2" />
+                 <img src={`data:${msg.imageMimeType || 'image/jpeg'};base64,${msg.image}`} alt="upload" className="max-h-60 rounded-lg mb-2" />
+              )}
+              {msg.attachments && (
+                <MessageAttachments
+                  attachments={msg.attachments}
+                  onEditImage={mode !== 'VIDEO_GEN' ? (index) => setEditSource({ messageId: msg.id, attachmentIndex: index }) : undefined}
+                />
+              )}
+
+              {/* Thought Summary */}
+              {msg.thoughts && (
+                <details className="mb-2 text-sm text-gray-400" open={msg.id === streamingId && msg.isThinking}>
+                  <summary className="cursor-pointer select-none text-yellow-500/80">💭 Thoughts</summary>
+                  <div className="mt-1 pl-3 border-l border-gray-600"><Markdown text={msg.thoughts} /></div>
+                </details>
+              )}
+
+              {msg.toolCalls && <ToolCallList calls={msg.toolCalls} />}
+
+              {/* Spoken in a Live call */}
+              {msg.transcribed && (
+                <div className={`text-xs mb-1 ${msg.role === 'user' ? 'text-black/60' : 'text-gray-500'}`}>
+                  🎙️ {new Date(msg.timestamp).toLocaleTimeString()}
+                </div>
               )}
 
               {/* Text Content */}
-              {msg.text && <p className="whitespace-pre-wrap leading-relaxed">{msg.text}</p>}
+              {msg.text && (msg.role === 'model'
+                ? <Markdown text={insertCitations(msg.text, msg.groundingSupports)} grounding={msg.grounding} />
+                : <p className="whitespace-pre-wrap leading-relaxed">{msg.text}</p>
+              )}
+
+              {/* Failed request */}
+              {msg.isError && msg.retryOf && (
+                <button
+                  onClick={() => handleSend(undefined, msg)}
+                  disabled={isLoading}
+                  className="mt-2 text-xs text-gray-400 hover:text-yellow-400 disabled:opacity-50"
+                  title="Send the same request again"
+                >
+                  ↻ Retry
+                </button>
+              )}
 
               {/* Generated Content */}
               {msg.image && msg.role === 'model' && (
                 <div className="mt-3">
-                   <img src={`data:image/png;base64,${msg.image}`} alt="generated" className="rounded-lg shadow-lg w-full max-w-md" />
-                   <a href={`data:image/png;base64,${msg.image}`} download="generated.png" className="text-xs text-blue-400 mt-1 block hover:underline">Download Image</a>
+                   {comparingId === msg.id && msg.editSource && resolveImageRef(messages, msg.editSource) ? (
+                     <div className="grid grid-cols-2 gap-2 max-w-2xl">
+                       {[
+                         { label: 'Before', img: resolveImageRef(messages, msg.editSource)! },
+                         { label: 'After', img: { data: msg.image, mimeType: msg.imageMimeType || 'image/png' } },
+                       ].map(({ label, img }) => (
+                         <figure key={label}>
+                           <img src={`data:${img.mimeType};base64,${img.data}`} alt={label} className="rounded-lg w-full" />
+                           <figcaption className="text-xs text-gray-400 mt-1 text-center">{label}</figcaption>
+                         </figure>
+                       ))}
+                     </div>
+                   ) : (
+                     <img
+                       src={`data:${msg.imageMimeType || 'image/png'};base64,${msg.image}`}
+                       alt="generated"
+                       className={`rounded-lg shadow-lg w-full max-w-md ${sameImageRef(editSource, { messageId: msg.id }) ? 'ring-2 ring-yellow-500' : ''}`}
+                     />
+                   )}
+                   <div className="flex items-center gap-3 mt-1 text-xs">
+                     <a href={`data:${msg.imageMimeType || 'image/png'};base64,${msg.image}`} download="generated.png" className="text-blue-400 hover:underline">Download Image</a>
+                     {mode !== 'VIDEO_GEN' && (
+                       <button onClick={() => setEditSource({ messageId: msg.id })} className="text-yellow-400 hover:underline">✏️ Edit</button>
+                     )}
+                     {msg.editSource && (
+                       <button onClick={() => setComparingId(comparingId === msg.id ? null : msg.id)} className="text-gray-400 hover:underline">
+                         {comparingId === msg.id ? 'Hide comparison' : '⇆ Compare'}
+                       </button>
+                     )}
+                   </div>
                 </div>
               )}
               
+              {msg.variants && (
+                <div className="mt-3 grid grid-cols-2 gap-2 max-w-2xl">
+                  {msg.variants.map((v, i) => (
+                    <div key={i} className={`relative group rounded-lg overflow-hidden ${sameImageRef(editSource, { messageId: msg.id, variantIndex: i }) ? 'ring-2 ring-yellow-500' : ''}`}>
+                      <img src={`data:${v.mimeType};base64,${v.data}`} alt={`variant ${i + 1}`} className="w-full" />
+                      <div className="absolute bottom-0 inset-x-0 flex items-center justify-between gap-2 bg-black/70 px-2 py-1 text-xs opacity-0 group-hover:opacity-100 transition-opacity">
+                        <span className="text-gray-400">{v.seed !== undefined ? `seed ${v.seed}` : `#${i + 1}`}</span>
+                        <span className="flex gap-2">
+                          {msg.generation && (
+                            <button onClick={() => reuseGeneration(msg.generation!, v.seed)} className="text-gray-300 hover:text-yellow-400" title="Reuse this variant's prompt, settings and seed">♻️</button>
+                          )}
+                          <a href={`data:${v.mimeType};base64,${v.data}`} download={`variant-${i + 1}.png`} className="text-blue-400 hover:underline">⬇</a>
+                          <button onClick={() => setEditSource({ messageId: msg.id, variantIndex: i })} className="text-yellow-400 hover:underline">✏️</button>
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Generation settings, for reproducing a result */}
+              {msg.generation && (
+                <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                  <span>
+                    {msg.generation.aspectRatio} · {msg.generation.size}
+                    {msg.generation.stylePreset && ` · ${findPreset(msg.generation.stylePreset)?.name || msg.generation.stylePreset}`}
+                    {msg.generation.seed !== undefined && ` · seed ${msg.generation.seed}`}
+                  </span>
+                  <button
+                    onClick={() => reuseGeneration(msg.generation!)}
+                    className="text-gray-400 hover:text-yellow-400"
+                    title={msg.variants
+                      ? "Load this prompt and its settings; the seed reproduces the whole batch (♻️ on a variant reuses just that one)"
+                      : "Load this prompt and its settings, including the seed"}
+                  >
+                    ♻️ Reuse settings
+                  </button>
+                </div>
+              )}
+
+              {msg.audioData && msg.audioMimeType && !hasSpeechAudio(msg) && (
+                <audio src={`data:${msg.audioMimeType};base64,${msg.audioData}`} controls className="mt-3 w-full max-w-md" />
+              )}
+
+              {msg.videoJobId && (() => {
+                const job = videoJobs.find(j => j.id === msg.videoJobId);
+                return job && !isJobFinished(job) ? <VideoJobCard job={job} onCancel={() => cancelVideoJob(job.id)} /> : null;
+              })()}
+
               {msg.videoUri && (
                 <div className="mt-3">
                     <video src={msg.videoUri} controls className="rounded-lg w-full max-w-md" />
@@ -235,26 +812,40 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ mode }) => {
               )}
 
               {/* Grounding Data */}
-              {msg.grounding && (
-                <div className="mt-4 flex flex-wrap gap-2">
-                    {msg.grounding.map((chunk, i) => {
-                        if (chunk.web) return <a key={i} href={chunk.web.uri} target="_blank" rel="noreferrer" className="text-xs bg-blue-900/50 text-blue-300 px-2 py-1 rounded border border-blue-800 hover:bg-blue-800 truncate max-w-xs">{chunk.web.title}</a>
-                        if (chunk.maps) return <a key={i} href={chunk.maps.uri} target="_blank" rel="noreferrer" className="text-xs bg-green-900/50 text-green-300 px-2 py-1 rounded border border-green-800 hover:bg-green-800 truncate max-w-xs">📍 {chunk.maps.title}</a>
-                        return null;
-                    })}
-                </div>
-              )}
+              <GroundingSources grounding={msg.grounding} searchQueries={msg.searchQueries} />
 
               {/* Controls */}
-              {msg.role === 'model' && msg.text && (
-                  <button onClick={() => playTTS(msg.text || '')} className="mt-2 text-gray-500 hover:text-yellow-400 transition-colors">
+              {msg.role === 'model' && msg.text && !msg.isError && (hasSpeechAudio(msg) ? (
+                  <SpeechPlayer
+                    audioData={msg.audioData!}
+                    voice={msg.speechVoice || findPersona(config.personaId).voice}
+                    onVoiceChange={voice => readAloud(msg, voice)}
+                    fileName={`nano-banana-${msg.id}.wav`}
+                    autoPlay={autoPlayId === msg.id}
+                  />
+              ) : !msg.audioData && speechStatus?.messageId !== msg.id && (
+                  <button onClick={() => readAloud(msg)} className="mt-2 text-gray-500 hover:text-yellow-400 transition-colors" title="Read aloud">
                     🔊
                   </button>
+              ))}
+              {speechStatus?.messageId === msg.id && (
+                  <div className={`mt-2 text-xs ${speechStatus.isError ? 'text-red-400' : 'text-gray-500 animate-pulse'}`}>
+                    {speechStatus.text}
+                    {speechStatus.isError && <button onClick={() => readAloud(msg)} className="ml-2 text-gray-400 hover:text-yellow-400">Retry</button>}
+                  </div>
+              )}
+              {msg.usage && (
+                  <div
+                    className="mt-1 text-[10px] text-gray-600"
+                    title={`${msg.usage.model}: ${formatTokens(msg.usage.promptTokens)} prompt (${formatTokens(msg.usage.cachedTokens)} cached), ${formatTokens(msg.usage.outputTokens)} output, ${formatTokens(msg.usage.thinkingTokens)} thinking tokens`}
+                  >
+                    {formatTokens(msg.usage.promptTokens + msg.usage.outputTokens + msg.usage.thinkingTokens)} tokens · {formatCost(msg.usage.cost)}
+                  </div>
               )}
             </div>
           </div>
         ))}
-        {isLoading && (
+        {isLoading && !messages.some(m => m.id === streamingId) && (
             <div className="flex justify-start animate-pulse">
                 <div className="bg-gray-800 p-4 rounded-2xl rounded-tl-none border border-gray-700">
                    <span className="text-yellow-500">Nano-Banana is {config.useThinking ? 'Thinking Deeply...' : 'typing...'}</span>
@@ -269,7 +860,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ mode }) => {
         <div className="relative flex items-end gap-2 max-w-4xl mx-auto">
             
             {/* File Input */}
-            <input type="file" ref={fileInputRef} onChange={handleFileUpload} className="hidden" accept="image/*" />
+            <input type="file" ref={fileInputRef} onChange={handleFileUpload} className="hidden" accept={ACCEPT_ATTRIBUTE} multiple />
             <button 
                 onClick={() => fileInputRef.current?.click()}
                 className={`p-3 rounded-full bg-gray-800 hover:bg-gray-700 transition-colors text-gray-400 ${files.length > 0 ? 'border-2 border-yellow-500 text-yellow-500' : ''}`}
@@ -277,34 +868,91 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ mode }) => {
                 ➕
             </button>
 
+            {/* Dictation */}
+            <DictationButton onTranscript={handleTranscript} onError={setAttachError} disabled={isLoading} />
+            {mode === 'CHAT' && (
+              <button
+                onClick={() => setHandsFree(!handsFree)}
+                className={`p-3 rounded-full bg-gray-800 hover:bg-gray-700 transition-colors ${handsFree ? 'border-2 border-yellow-500 text-yellow-500' : 'text-gray-400'}`}
+                title={handsFree ? 'Hands-free on: dictation sends and replies are read aloud' : 'Hands-free off'}
+              >
+                🙌
+              </button>
+            )}
+
             {/* Text Input */}
             <div className="flex-1 bg-gray-800 rounded-2xl border border-gray-700 focus-within:border-yellow-500 transition-colors flex flex-col">
+                {editSource && mode !== 'VIDEO_GEN' && (() => {
+                    const source = resolveImageRef(messages, editSource);
+                    const parent = parentImageRef(messages, editSource);
+                    return (
+                      <div className="px-4 pt-2 flex items-center gap-2 text-xs">
+                        {source && <img src={`data:${source.mimeType};base64,${source.data}`} alt="edit source" className="h-10 w-10 object-cover rounded border border-yellow-500" />}
+                        <span className="text-yellow-400">Editing image{files.length > 0 ? ` · ${files.length} reference${files.length > 1 ? 's' : ''}` : ''}</span>
+                        {parent && (
+                          <button onClick={() => setEditSource(parent)} className="text-gray-400 hover:text-white" title="Continue from the previous version">↶ Undo</button>
+                        )}
+                        <button onClick={() => setEditSource(null)} className="text-gray-400 hover:text-white" title="Stop editing">✕</button>
+                      </div>
+                    );
+                })()}
+                {attachError && (
+                    <div className="px-4 pt-2 text-xs text-red-400 whitespace-pre-wrap">{attachError}</div>
+                )}
                 {files.length > 0 && (
-                    <div className="px-4 pt-2">
-                        <div className="relative inline-block">
-                             <img src={files[0].preview} alt="preview" className="h-12 w-12 object-cover rounded-md border border-gray-600" />
-                             <button onClick={() => setFiles([])} className="absolute -top-1 -right-1 bg-red-500 rounded-full w-4 h-4 flex items-center justify-center text-xs text-white">×</button>
-                        </div>
+                    <div className="px-4 pt-2 flex flex-wrap gap-2">
+                        {files.map(f => (
+                          <div key={f.id} className="relative inline-block" title={`${f.name} (${formatBytes(f.size)})`}>
+                             {f.preview ? (
+                               <>
+                                 <img src={f.preview} alt={f.name} className="h-12 w-12 object-cover rounded-md border border-gray-600" />
+                                 {mode === 'VIDEO_GEN' && (
+                                   <span className="absolute bottom-0 inset-x-0 text-center text-[10px] bg-black/70 rounded-b-md">
+                                     {files.filter(p => p.preview).indexOf(f) === 0 ? 'Start' : 'End'}
+                                   </span>
+                                 )}
+                               </>
+                             ) : (
+                               <div className="h-12 w-28 px-2 flex items-center gap-1 rounded-md border border-gray-600 bg-gray-900 text-xs">
+                                 <span>{attachmentIcon(f.mimeType)}</span>
+                                 <span className="truncate">{f.name}</span>
+                               </div>
+                             )}
+                             <button onClick={() => removeFile(f.id)} className="absolute -top-1 -right-1 bg-red-500 rounded-full w-4 h-4 flex items-center justify-center text-xs text-white">×</button>
+                          </div>
+                        ))}
                     </div>
                 )}
                 <textarea 
+                    ref={textareaRef}
                     value={inputText}
                     onChange={(e) => setInputText(e.target.value)}
                     onKeyDown={(e) => { if(e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSend(); }}}
-                    placeholder={mode === 'CHAT' ? "Ask me anything..." : mode === 'IMAGE_GEN' ? "Describe the image..." : "Describe the video..."}
+                    onPaste={handlePaste}
+                    placeholder={editSource && mode !== 'VIDEO_GEN' ? "Describe the edit..." : mode === 'CHAT' ? "Ask me anything..." : mode === 'IMAGE_GEN' ? "Describe the image..." : "Describe the video..."}
                     className="w-full bg-transparent text-white p-3 focus:outline-none resize-none max-h-32"
                     rows={1}
                 />
             </div>
 
-            {/* Send Button */}
+            {/* Send / Stop Button */}
+            {streamingId ? (
+              <button
+                onClick={stopGeneration}
+                className="p-3 rounded-full bg-red-600 hover:bg-red-500 text-white font-bold transition-transform active:scale-95"
+                title="Stop generating"
+              >
+                ⏹
+              </button>
+            ) : (
             <button 
-                onClick={handleSend}
+                onClick={() => handleSend()}
                 disabled={isLoading || (!inputText && files.length === 0)}
                 className="p-3 rounded-full bg-yellow-500 hover:bg-yellow-400 text-black font-bold disabled:opacity-50 disabled:cursor-not-allowed transition-transform active:scale-95"
             >
                 🚀
             </button>
+            )}
         </div>
       </div>
     </div>
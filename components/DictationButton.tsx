@@ -0,0 +1,114 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Dictation, startDictation, transcribeRecording } from '../services/dictation';
+import { confirmBudget } from '../services/usage';
+
+// Number of recent mic levels shown in the waveform
+const WAVE_BARS = 24;
+
+interface DictationButtonProps {
+  onTranscript: (text: string) => void;
+  onError: (message: string) => void;
+  disabled?: boolean;
+}
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const DictationButton: React.FC<DictationButtonProps> = ({ onTranscript, onError, disabled }) => {
+  const [state, setState] = useState<'idle' | 'recording' | 'transcribing'>('idle');
+  const [levels, setLevels] = useState<number[]>(new Array(WAVE_BARS).fill(0));
+  const [startedAt, setStartedAt] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const dictationRef = useRef<Dictation | null>(null);
+
+  useEffect(() => {
+    if (state !== 'recording') return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [state]);
+
+  // Never leave the microphone on after the composer goes away
+  useEffect(() => () => dictationRef.current?.cancel(), []);
+
+  const start = async () => {
+    try {
+      setLevels(new Array(WAVE_BARS).fill(0));
+      dictationRef.current = await startDictation(
+        level => setLevels(prev => [...prev.slice(1), level]),
+        () => finishRef.current() // hit the length limit
+      );
+      setStartedAt(Date.now());
+      setNow(Date.now());
+      setState('recording');
+    } catch (e) {
+      console.error("Dictation failed to start", e);
+      onError("Could not access the microphone.");
+    }
+  };
+
+  const finish = async () => {
+    const dictation = dictationRef.current;
+    dictationRef.current = null;
+    if (!dictation) return;
+    setState('transcribing');
+    try {
+      const recording = await dictation.stop();
+      const seconds = (Date.now() - startedAt) / 1000;
+      if (recording && !(await confirmBudget({ kind: 'transcription', seconds }, 'Transcribe'))) return;
+      const text = recording ? await transcribeRecording(recording) : '';
+      if (text) onTranscript(text);
+      else onError("No speech was recognised.");
+    } catch (e) {
+      console.error("Transcription failed", e);
+      onError("Transcription failed.");
+    } finally {
+      setState('idle');
+    }
+  };
+
+  // The length limit fires long after `start`; this sees the latest props
+  const finishRef = useRef(finish);
+  finishRef.current = finish;
+
+  const cancel = () => {
+    dictationRef.current?.cancel();
+    dictationRef.current = null;
+    setState('idle');
+  };
+
+  if (state === 'recording') {
+    return (
+      <div className="flex items-center gap-2 px-3 py-2 rounded-full bg-gray-800 border border-red-500">
+        <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+        <span className="text-xs text-gray-300 tabular-nums">{formatElapsed(now - startedAt)}</span>
+        <div className="flex items-center gap-0.5 h-6">
+          {levels.map((level, i) => (
+            <div
+              key={i}
+              className="w-0.5 bg-red-400 rounded-full"
+              // Square root so quiet speech still moves the waveform
+              style={{ height: `${15 + Math.min(1, Math.sqrt(level) * 1.5) * 85}%` }}
+            />
+          ))}
+        </div>
+        <button onClick={cancel} className="text-gray-400 hover:text-white text-sm" title="Discard">✕</button>
+        <button onClick={finish} className="text-green-400 hover:text-green-300 text-sm" title="Stop and transcribe">✓</button>
+      </div>
+    );
+  }
+
+  return (
+    <button
+      onClick={start}
+      disabled={disabled || state === 'transcribing'}
+      className="p-3 rounded-full bg-gray-800 hover:bg-gray-700 transition-colors text-gray-400 disabled:opacity-50 disabled:cursor-not-allowed"
+      title={state === 'transcribing' ? 'Transcribing...' : 'Dictate'}
+    >
+      {state === 'transcribing' ? '⏳' : '🎤'}
+    </button>
+  );
+};
+
+export default DictationButton;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { GroundingChunk } from '../types';
+import { isSafeUrl } from '../services/markdown';
+
+interface GroundingSourcesProps {
+  grounding?: GroundingChunk[];
+  searchQueries?: string[];
+}
+
+const GroundingSources: React.FC<GroundingSourcesProps> = ({ grounding, searchQueries }) => {
+  const hasQueries = !!searchQueries && searchQueries.length > 0;
+  if ((!grounding || grounding.length === 0) && !hasQueries) return null;
+
+  return (
+    <div className="mt-4 space-y-2">
+      {hasQueries && (
+        <div className="flex flex-wrap items-center gap-1 text-xs text-gray-400">
+          <span>🔎 Searched:</span>
+          {searchQueries!.map((q, i) => (
+            <a key={i} href={`https://www.google.com/search?q=${encodeURIComponent(q)}`} target="_blank" rel="noreferrer"
+               className="px-2 py-0.5 rounded-full bg-gray-900 border border-gray-700 hover:border-blue-500">
+              {q}
+            </a>
+          ))}
+        </div>
+      )}
+
+      {grounding && grounding.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {grounding.map((chunk, i) => {
+            // Sources with an unexpected scheme (only possible in imported threads) are listed without a link
+            const source = chunk.web || chunk.maps;
+            if (source && !isSafeUrl(source.uri)) return <span key={i} className="text-xs bg-gray-900 text-gray-400 px-2 py-1 rounded border border-gray-700 truncate max-w-xs">[{i + 1}] {source.title}</span>
+            if (chunk.web) return <a key={i} href={chunk.web.uri} target="_blank" rel="noreferrer" className="text-xs bg-blue-900/50 text-blue-300 px-2 py-1 rounded border border-blue-800 hover:bg-blue-800 truncate max-w-xs">[{i + 1}] {chunk.web.title}</a>
+            if (chunk.maps) return <a key={i} href={chunk.maps.uri} target="_blank" rel="noreferrer" className="text-xs bg-green-900/50 text-green-300 px-2 py-1 rounded border border-green-800 hover:bg-green-800 truncate max-w-xs">[{i + 1}] 📍 {chunk.maps.title}</a>
+            return null;
+          })}
+        </div>
+      )}
+
+      {/* Review cards for places that were answered from Maps reviews */}
+      {grounding?.map((chunk, i) => {
+        const reviews = chunk.maps?.placeAnswerSources?.reviewSnippets;
+        if (!reviews || reviews.length === 0) return null;
+        return (
+          <details key={`reviews-${i}`} className="bg-gray-900/60 border border-green-900 rounded-lg text-sm">
+            <summary className="cursor-pointer select-none px-3 py-2 text-green-300">
+              ⭐ {reviews.length} review{reviews.length > 1 ? 's' : ''} for {chunk.maps!.title}
+            </summary>
+            <div className="px-3 pb-3 space-y-2">
+              {reviews.map((r, j) => (
+                <div key={r.reviewId || j} className="border-t border-gray-800 pt-2">
+                  <div className="flex items-center gap-2 text-xs text-gray-400">
+                    {isSafeUrl(r.authorAttribution?.photoUri) && <img src={r.authorAttribution.photoUri} alt="" className="w-5 h-5 rounded-full" />}
+                    <span className="text-gray-300">{r.authorAttribution?.displayName || 'Google Maps user'}</span>
+                    {r.relativePublishTimeDescription && <span>· {r.relativePublishTimeDescription}</span>}
+                  </div>
+                  {r.title && <div className="font-medium mt-1">{r.title}</div>}
+                  {r.review && <p className="text-gray-300 mt-1 whitespace-pre-wrap">{r.review}</p>}
+                  {isSafeUrl(r.googleMapsUri) && <a href={r.googleMapsUri} target="_blank" rel="noreferrer" className="text-xs text-blue-400 hover:underline">View on Google Maps</a>}
+                </div>
+              ))}
+            </div>
+          </details>
+        );
+      })}
+    </div>
+  );
+};
+
+export default GroundingSources;
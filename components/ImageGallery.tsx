@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { AppMode } from '../types';
+import { GalleryItem, listGeneratedImages } from '../services/conversationStore';
+
+interface ImageGalleryProps {
+  onClose: () => void;
+  onOpenThread: (mode: AppMode, threadId: string) => void;
+}
+
+const PAGE_SIZE = 24;
+
+const ImageGallery: React.FC<ImageGalleryProps> = ({ onClose, onOpenThread }) => {
+  const [items, setItems] = useState<GalleryItem[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [offset, setOffset] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    setIsLoading(true);
+    listGeneratedImages(offset, PAGE_SIZE)
+      .then(page => {
+        setItems(prev => offset === 0 ? page.items : [...prev, ...page.items]);
+        setHasMore(page.hasMore);
+      })
+      .catch(e => console.error("Failed to load gallery", e))
+      .finally(() => setIsLoading(false));
+  }, [offset]);
+
+  return (
+    <div className="absolute inset-0 z-30 bg-gray-900 flex flex-col">
+      <div className="h-16 border-b border-gray-800 flex items-center px-6 justify-between shrink-0">
+        <h2 className="text-lg font-semibold">🖼️ Gallery</h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-white text-xl">✕</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4">
+        {!isLoading && items.length === 0 && (
+          <div className="text-center text-gray-500 mt-12">No generated images yet.</div>
+        )}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {items.map((item, i) => (
+            <button
+              key={`${item.messageId}-${item.ref.variantIndex ?? 'image'}-${i}`}
+              onClick={() => onOpenThread(item.thread.mode, item.thread.id)}
+              className="group relative rounded-lg overflow-hidden border border-gray-800 hover:border-yellow-500 text-left"
+              title={item.prompt || item.thread.title}
+            >
+              <img src={`data:${item.image.mimeType};base64,${item.image.data}`} alt={item.prompt || 'generated'} className="w-full aspect-square object-cover" />
+              <div className="absolute bottom-0 inset-x-0 bg-black/70 px-2 py-1 text-xs text-gray-300 opacity-0 group-hover:opacity-100 transition-opacity">
+                <div className="truncate">{item.prompt || item.thread.title}</div>
+                <div className="text-gray-500">
+                  {new Date(item.timestamp).toLocaleDateString()}{item.image.seed !== undefined && ` · seed ${item.image.seed}`}
+                </div>
+              </div>
+            </button>
+          ))}
+        </div>
+        {hasMore && (
+          <div className="text-center mt-4">
+            <button
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={isLoading}
+              className="px-4 py-2 rounded bg-gray-800 hover:bg-gray-700 text-sm disabled:opacity-50"
+            >
+              {isLoading ? 'Loading...' : 'Load more'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImageGallery;
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { ImageConfig, StylePreset } from '../types';
+import { BUILT_IN_PRESETS, deleteCustomPreset, loadCustomPresets, saveCustomPreset } from '../services/imagePresets';
+
+interface ImageStudioControlsProps {
+  config: ImageConfig;
+  onChange: (config: ImageConfig) => void;
+  onOpenGallery: () => void;
+}
+
+const ASPECT_RATIOS: { value: ImageConfig['aspectRatio']; label: string }[] = [
+  { value: '1:1', label: '1:1 Square' },
+  { value: '4:3', label: '4:3 Landscape' },
+  { value: '16:9', label: '16:9 Wide' },
+  { value: '3:4', label: '3:4 Portrait' },
+  { value: '9:16', label: '9:16 Tall' },
+];
+
+const SIZES: ImageConfig['size'][] = ['1K', '2K', '4K'];
+
+const selectClass = "bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs";
+
+const ImageStudioControls: React.FC<ImageStudioControlsProps> = ({ config, onChange, onOpenGallery }) => {
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [customPresets, setCustomPresets] = useState<StylePreset[]>(loadCustomPresets);
+  const [newPresetName, setNewPresetName] = useState('');
+
+  const update = (changes: Partial<ImageConfig>) => onChange({ ...config, ...changes });
+
+  const savePreset = () => {
+    const name = newPresetName.trim();
+    if (!name || (!config.negativePrompt && !config.stylePreset)) return;
+    const base = [...BUILT_IN_PRESETS, ...customPresets].find(p => p.id === config.stylePreset);
+    const negativePrompt = [base?.negativePrompt, config.negativePrompt].filter(Boolean).join(', ') || undefined;
+    const created = saveCustomPreset({ name, prompt: base?.prompt || '', negativePrompt });
+    setCustomPresets(loadCustomPresets());
+    setNewPresetName('');
+    update({ stylePreset: created.id, negativePrompt: undefined });
+  };
+
+  const removePreset = (id: string) => {
+    deleteCustomPreset(id);
+    setCustomPresets(loadCustomPresets());
+    if (config.stylePreset === id) update({ stylePreset: undefined });
+  };
+
+  return (
+    <>
+      <select className={selectClass} value={config.aspectRatio} onChange={e => update({ aspectRatio: e.target.value as ImageConfig['aspectRatio'] })}>
+        {ASPECT_RATIOS.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+      </select>
+      <select className={selectClass} value={config.size} onChange={e => update({ size: e.target.value as ImageConfig['size'] })}>
+        {SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+      </select>
+      <select className={selectClass} value={config.count} onChange={e => update({ count: parseInt(e.target.value, 10) })} title="Variants per prompt">
+        {[1, 2, 3, 4].map(n => <option key={n} value={n}>×{n}</option>)}
+      </select>
+      <select className={`${selectClass} hidden md:block`} value={config.stylePreset || ''} onChange={e => update({ stylePreset: e.target.value || undefined })}>
+        <option value="">No style</option>
+        {BUILT_IN_PRESETS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        {customPresets.length > 0 && (
+          <optgroup label="My presets">
+            {customPresets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </optgroup>
+        )}
+      </select>
+      <button onClick={() => setShowAdvanced(!showAdvanced)} className={`text-xs ${showAdvanced ? 'text-yellow-400' : 'text-gray-400'} hover:text-yellow-300`}>⚙️</button>
+      <button onClick={onOpenGallery} className="text-xs text-gray-400 hover:text-yellow-300" title="All generated images">🖼️ Gallery</button>
+
+      {showAdvanced && (
+        <div className="absolute top-16 right-4 z-20 w-80 bg-gray-900 border border-gray-700 rounded-lg shadow-xl p-4 space-y-3 text-xs">
+          <label className="block">
+            <span className="text-gray-400">Avoid (negative prompt)</span>
+            <input
+              value={config.negativePrompt || ''}
+              onChange={e => update({ negativePrompt: e.target.value || undefined })}
+              placeholder="e.g. text, watermark, extra fingers"
+              className="mt-1 w-full bg-gray-800 border border-gray-700 rounded px-2 py-1"
+            />
+          </label>
+          <label className="block">
+            <span className="text-gray-400">Seed (empty = random)</span>
+            <div className="flex gap-2 mt-1">
+              <input
+                type="number"
+                value={config.seed ?? ''}
+                onChange={e => update({ seed: e.target.value === '' ? undefined : parseInt(e.target.value, 10) })}
+                className="flex-1 bg-gray-800 border border-gray-700 rounded px-2 py-1"
+              />
+              <button onClick={() => update({ seed: Math.floor(Math.random() * 2 ** 31) })} className="px-2 rounded bg-gray-800 hover:bg-gray-700" title="Pick a random seed">🎲</button>
+            </div>
+          </label>
+          <div>
+            <span className="text-gray-400">Save current style + avoid list as preset</span>
+            <div className="flex gap-2 mt-1">
+              <input
+                value={newPresetName}
+                onChange={e => setNewPresetName(e.target.value)}
+                placeholder="Preset name"
+                className="flex-1 bg-gray-800 border border-gray-700 rounded px-2 py-1"
+              />
+              <button onClick={savePreset} className="px-2 rounded bg-yellow-500 text-black font-bold disabled:opacity-50" disabled={!newPresetName.trim()}>Save</button>
+            </div>
+          </div>
+          {customPresets.length > 0 && (
+            <ul className="space-y-1">
+              {customPresets.map(p => (
+                <li key={p.id} className="flex items-center justify-between">
+                  <span className="truncate">{p.name}</span>
+                  <button onClick={() => removePreset(p.id)} className="text-gray-500 hover:text-red-400">🗑️</button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ImageStudioControls;
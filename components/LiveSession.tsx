@@ -1,197 +1,409 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { getLiveClient } from '../services/geminiService';
-import { createBlob, decode, decodeAudioData } from '../services/audioUtils';
+import { LiveConnection, LiveStatus, createLiveConnection } from '../services/liveConnection';
+import { createPcmBlob, decode, decodeAudioData } from '../services/audioUtils';
+import { MicCapture, startMicCapture } from '../services/audioCapture';
+import { readAsBase64 } from '../services/attachments';
+import { TranscriptEntry, appendToolCalls, appendTranscript, completeTurn, saveLiveTranscript } from '../services/liveTranscript';
+import { getToolDeclarations, runToolCalls } from '../services/tools';
+import ToolCallList from './ToolCallList';
+import LiveVideoControls from './LiveVideoControls';
+import PersonaPicker from './PersonaPicker';
+import { findPersona, getDefaultPersonaId, personaInstruction } from '../services/personas';
+import { DEFAULT_FRAME_SETTINGS, VideoFrameSettings, VideoSource, openVideoSource } from '../services/videoSources';
 import { Modality, LiveServerMessage } from '@google/genai';
+import { AppMode } from '../types';
+import { confirmBudget } from '../services/usage';
 
-const LiveSession: React.FC = () => {
-  const [isConnected, setIsConnected] = useState(false);
+// Number of recent mic levels shown by the meter
+const METER_BARS = 16;
+
+interface LiveSessionProps {
+  onOpenThread: (mode: AppMode, threadId: string) => void;
+}
+
+const LiveSession: React.FC<LiveSessionProps> = ({ onOpenThread }) => {
+  const [status, setStatus] = useState<LiveStatus | 'idle'>('idle');
+  const isConnected = status === 'live' || status === 'reconnecting';
+  const [isSpeaking, setIsSpeaking] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [visualizerData, setVisualizerData] = useState<number[]>(new Array(10).fill(10));
+  const [micLevels, setMicLevels] = useState<number[]>(new Array(METER_BARS).fill(0));
+
+  // Transcript, mirrored in a ref so stopSession (also run on unmount) sees the latest entries
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  const transcriptRef = useRef<TranscriptEntry[]>([]);
+  const startedAtRef = useRef<number>(0);
+  const [recordAudio, setRecordAudio] = useState(false);
+  const [personaId, setPersonaId] = useState(getDefaultPersonaId);
+  const personaIdRef = useRef(personaId);
+  personaIdRef.current = personaId;
+  const [savedThreadId, setSavedThreadId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const captionsEndRef = useRef<HTMLDivElement>(null);
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const streamRef = useRef<MediaStream | null>(null);
+  const streamRef = useRef<MediaStream | null>(null); // microphone
+  const videoStreamRef = useRef<MediaStream | null>(null);
+
+  // Video source settings; refs let the running frame loop pick up changes without reconnecting
+  const [videoSource, setVideoSource] = useState<VideoSource>({ kind: 'camera' });
+  const [frameSettings, setFrameSettings] = useState<VideoFrameSettings>(DEFAULT_FRAME_SETTINGS);
+  const [videoPaused, setVideoPaused] = useState(false);
+  const frameSettingsRef = useRef(frameSettings);
+  frameSettingsRef.current = frameSettings;
+  const videoPausedRef = useRef(videoPaused);
+  videoPausedRef.current = videoPaused;
   
   // Audio Refs
-  const inputContextRef = useRef<AudioContext | null>(null);
+  const captureRef = useRef<MicCapture | null>(null);
   const outputContextRef = useRef<AudioContext | null>(null);
   const nextStartTimeRef = useRef<number>(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const sessionRef = useRef<Promise<any> | null>(null);
+  const connectionRef = useRef<LiveConnection | null>(null);
+  const mediaStartedRef = useRef(false);
+  // Bumped by teardown, so a start still waiting on devices knows the call was ended
+  const callIdRef = useRef(0);
+
+  // Call recording (both sides, mixed in the output context)
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const recordedChunksRef = useRef<Blob[]>([]);
+  const recordDestRef = useRef<MediaStreamAudioDestinationNode | null>(null);
 
-  // Video Streaming Interval
-  const frameIntervalRef = useRef<number | null>(null);
+  // Video frame timer
+  const frameTimerRef = useRef<number | null>(null);
+
+  const updateTranscript = (update: (entries: TranscriptEntry[]) => TranscriptEntry[]) => {
+    transcriptRef.current = update(transcriptRef.current);
+    setTranscript(transcriptRef.current);
+  };
+
+  useEffect(() => captionsEndRef.current?.scrollIntoView({ behavior: 'smooth' }), [transcript]);
 
   const startSession = async () => {
+    if (!(await confirmBudget({ kind: 'live' }, 'Start call'))) return;
+    const callId = ++callIdRef.current;
     try {
       setError(null);
-      const ai = getLiveClient();
+      setSavedThreadId(null);
+      transcriptRef.current = [];
+      setTranscript([]);
+      startedAtRef.current = Date.now();
+      setStatus('connecting');
+      const persona = findPersona(personaId);
       
       // Setup Audio Contexts
-      inputContextRef.current = new (window.AudioContext || window.webkitAudioContext)({ sampleRate: 16000 });
       outputContextRef.current = new (window.AudioContext || window.webkitAudioContext)({ sampleRate: 24000 });
       nextStartTimeRef.current = 0;
 
-      // Get User Media (Audio + Video for Multimodal)
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true, video: true });
+      // Microphone, plus the chosen video source (if any) as a separate stream
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       streamRef.current = stream;
+      setVideoPaused(false);
+      await attachVideoSource(videoSource);
+      // End Call was pressed while the devices were opening
+      if (callIdRef.current !== callId) {
+        teardown();
+        return;
+      }
 
-      // Setup Video Preview
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        videoRef.current.play();
+      if (recordAudio) {
+        const dest = outputContextRef.current.createMediaStreamDestination();
+        outputContextRef.current.createMediaStreamSource(stream).connect(dest);
+        recordDestRef.current = dest;
+        recordedChunksRef.current = [];
+        const recorder = new MediaRecorder(dest.stream);
+        recorder.ondataavailable = (e) => { if (e.data.size > 0) recordedChunksRef.current.push(e.data); };
+        recorder.start(1000);
+        recorderRef.current = recorder;
       }
 
-      // Initialize Connection
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        callbacks: {
-          onopen: () => {
-            setIsConnected(true);
-            
-            // Start Audio Stream
-            if (!inputContextRef.current) return;
-            const source = inputContextRef.current.createMediaStreamSource(stream);
-            const scriptProcessor = inputContextRef.current.createScriptProcessor(4096, 1, 1);
-            
-            scriptProcessor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createBlob(inputData);
-              sessionPromise.then(session => session.sendRealtimeInput({ media: pcmBlob }));
-              
-              // Fake visualizer update based on volume
-              const volume = inputData.reduce((a, b) => a + Math.abs(b), 0) / inputData.length;
-              setVisualizerData(prev => prev.map(() => Math.random() * 20 + (volume * 500)));
-            };
-            
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputContextRef.current.destination);
-
-            // Start Video Stream
-            startVideoStreaming(sessionPromise);
-          },
-          onmessage: async (msg: LiveServerMessage) => {
-            // Handle Audio Output
-            const base64Audio = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (base64Audio && outputContextRef.current) {
-               const ctx = outputContextRef.current;
-               nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-               
-               const audioBuffer = await decodeAudioData(
-                 decode(base64Audio),
-                 ctx,
-                 24000,
-                 1
-               );
-               
-               const source = ctx.createBufferSource();
-               source.buffer = audioBuffer;
-               source.connect(ctx.destination);
-               source.addEventListener('ended', () => {
-                 sourcesRef.current.delete(source);
-               });
-               
-               source.start(nextStartTimeRef.current);
-               nextStartTimeRef.current += audioBuffer.duration;
-               sourcesRef.current.add(source);
-            }
-
-            // Handle Interruption
-            if (msg.serverContent?.interrupted) {
-              sourcesRef.current.forEach(s => s.stop());
-              sourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-            }
-          },
-          onclose: () => {
-            setIsConnected(false);
-          },
-          onerror: (e) => {
-            console.error("Live API Error", e);
-            setError("Connection error.");
-            setIsConnected(false);
-          }
-        },
+      // Initialize Connection (reconnects on its own; media keeps flowing into whichever socket is open)
+      connectionRef.current = createLiveConnection({
         config: {
           responseModalities: [Modality.AUDIO],
           speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } }
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: persona.voice } },
+            languageCode: persona.language
           },
-          systemInstruction: "You are a helpful, witty AI assistant named Nano-Banana. Be concise.",
-        }
+          systemInstruction: personaInstruction(persona),
+          tools: [{ functionDeclarations: getToolDeclarations() }],
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
+        },
+        onMessage: handleMessage,
+        onStatus: (next, reason) => handleStatus(stream, next, reason),
       });
-      
-      sessionRef.current = sessionPromise;
 
     } catch (err) {
       console.error(err);
+      // Ending the call mid-start is not a failure
+      const ended = callIdRef.current !== callId;
+      teardown();
+      if (ended) return;
       setError("Failed to access media devices or connect.");
+      setStatus('idle');
+    }
+  };
+
+  const handleStatus = (stream: MediaStream, next: LiveStatus, reason?: string) => {
+    if (next === 'ended') {
+      // A reason means reconnecting gave up; otherwise teardown closed the connection itself
+      if (reason) {
+        setError(reason);
+        teardown();
+      }
+      setStatus('ended');
+      return;
+    }
+    setStatus(next);
+    if (next === 'live' && !mediaStartedRef.current) {
+      mediaStartedRef.current = true;
+      startMedia(stream);
+    }
+  };
+
+  // Mic and video start once per call and survive reconnects
+  const startMedia = (stream: MediaStream) => {
+    // Start Audio Stream (16 kHz PCM from an AudioWorklet)
+    startMicCapture(stream, (pcm, level) => {
+      connectionRef.current?.sendRealtimeInput({ media: createPcmBlob(pcm) });
+      setMicLevels(prev => [...prev.slice(1), level]);
+    })
+      .then(capture => {
+        // The call may have ended while the worklet was loading
+        if (streamRef.current === stream) captureRef.current = capture;
+        else capture.stop();
+      })
+      .catch(e => {
+        console.error("Microphone capture failed", e);
+        setError("Could not start the microphone.");
+      });
+
+    // Start Video Stream
+    startVideoStreaming();
+  };
+
+  const handleMessage = async (msg: LiveServerMessage) => {
+    // Handle Audio Output
+    const base64Audio = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+    if (base64Audio && outputContextRef.current) {
+       const ctx = outputContextRef.current;
+       nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
+       
+       const audioBuffer = await decodeAudioData(
+         decode(base64Audio),
+         ctx,
+         24000,
+         1
+       );
+       // The call may have ended while decoding
+       if (outputContextRef.current !== ctx) return;
+       
+       const source = ctx.createBufferSource();
+       source.buffer = audioBuffer;
+       source.connect(ctx.destination);
+       if (recordDestRef.current) source.connect(recordDestRef.current);
+       source.addEventListener('ended', () => {
+         sourcesRef.current.delete(source);
+         if (sourcesRef.current.size === 0) setIsSpeaking(false);
+       });
+       
+       source.start(nextStartTimeRef.current);
+       nextStartTimeRef.current += audioBuffer.duration;
+       sourcesRef.current.add(source);
+       setIsSpeaking(true);
+    }
+
+    // Function calls: run locally and answer on the same session
+    const functionCalls = msg.toolCall?.functionCalls;
+    if (functionCalls?.length) {
+      const results = await runToolCalls(functionCalls);
+      updateTranscript(entries => appendToolCalls(entries, results.map(r => r.record)));
+      connectionRef.current?.sendToolResponse({ functionResponses: results.map(r => r.response) });
+    }
+
+    // Captions
+    const heard = msg.serverContent?.inputTranscription?.text;
+    if (heard) updateTranscript(entries => appendTranscript(entries, 'user', heard));
+    const spoken = msg.serverContent?.outputTranscription?.text;
+    if (spoken) updateTranscript(entries => appendTranscript(entries, 'model', spoken));
+    if (msg.serverContent?.turnComplete) updateTranscript(completeTurn);
+
+    // Handle Interruption (barge-in): drop whatever is still queued
+    if (msg.serverContent?.interrupted) {
+      sourcesRef.current.forEach(s => s.stop());
+      sourcesRef.current.clear();
+      nextStartTimeRef.current = 0;
+      setIsSpeaking(false);
+      updateTranscript(completeTurn);
     }
   };
 
-  const startVideoStreaming = (sessionPromise: Promise<any>) => {
-    if (!videoRef.current || !canvasRef.current) return;
-    
-    const ctx = canvasRef.current.getContext('2d');
-    const video = videoRef.current;
-    
-    frameIntervalRef.current = window.setInterval(() => {
-      if (!ctx || !video) return;
-      canvasRef.current!.width = video.videoWidth * 0.2; // downscale for speed
-      canvasRef.current!.height = video.videoHeight * 0.2;
-      ctx.drawImage(video, 0, 0, canvasRef.current!.width, canvasRef.current!.height);
+  // Show a video source in the preview, replacing (and stopping) the previous one
+  const attachVideoSource = async (source: VideoSource) => {
+    const next = await openVideoSource(source);
+    videoStreamRef.current?.getTracks().forEach(t => t.stop());
+    videoStreamRef.current = next;
+    if (videoRef.current) {
+      videoRef.current.srcObject = next;
+      if (next) videoRef.current.play();
+    }
+
+    // Screen sharing can also be stopped from the browser's own UI
+    next?.getVideoTracks()[0]?.addEventListener('ended', () => {
+      if (videoStreamRef.current !== next) return;
+      videoStreamRef.current = null;
+      if (videoRef.current) videoRef.current.srcObject = null;
+      setVideoSource({ kind: 'none' });
+    });
+  };
+
+  const changeVideoSource = async (source: VideoSource) => {
+    if (!isConnected) {
+      setVideoSource(source);
+      return;
+    }
+    // Mid-call: swap the stream; the frame loop and the session keep running
+    try {
+      await attachVideoSource(source);
+      setVideoSource(source);
+      setError(null);
+    } catch (e) {
+      console.error("Failed to switch video source", e);
+      setError("Could not switch the video source.");
+    }
+  };
+
+  const startVideoStreaming = () => {
+    const sendFrame = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      frameTimerRef.current = window.setTimeout(sendFrame, 1000 / frameSettingsRef.current.fps);
+      if (!video || !canvas || !ctx || !videoStreamRef.current || videoPausedRef.current || !video.videoWidth) return;
+
+      const scale = Math.min(1, frameSettingsRef.current.maxWidth / video.videoWidth);
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
       
-      canvasRef.current!.toBlob(async (blob) => {
+      canvas.toBlob(async (blob) => {
         if (!blob) return;
         
         // Convert Blob to base64
         const reader = new FileReader();
         reader.onloadend = () => {
           const base64data = (reader.result as string).split(',')[1];
-           sessionPromise.then(session => {
-             session.sendRealtimeInput({
-               media: { data: base64data, mimeType: 'image/jpeg' }
-             });
-           });
+          connectionRef.current?.sendRealtimeInput({
+            media: { data: base64data, mimeType: 'image/jpeg' }
+          });
         };
         reader.readAsDataURL(blob);
-      }, 'image/jpeg', 0.5);
-    }, 1000); // 1 FPS for efficiency
+      }, 'image/jpeg', 0.6);
+    };
+    sendFrame();
   };
 
-  const stopSession = () => {
-    if (sessionRef.current) {
-      sessionRef.current.then(s => s.close());
-    }
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(t => t.stop());
+  // Stop the recorder and collect what it captured
+  const finishRecording = () => new Promise<Blob | null>((resolve) => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    recordDestRef.current = null;
+    if (!recorder || recorder.state === 'inactive') return resolve(null);
+    recorder.onstop = () => {
+      const chunks = recordedChunksRef.current;
+      recordedChunksRef.current = [];
+      resolve(chunks.length > 0 ? new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }) : null);
+    };
+    recorder.stop();
+  });
+
+  const saveCall = async () => {
+    const entries = transcriptRef.current;
+    transcriptRef.current = [];
+    const recording = await finishRecording();
+    if (entries.length === 0 && !recording) return;
+
+    setIsSaving(true);
+    try {
+      const threadId = await saveLiveTranscript(
+        entries,
+        startedAtRef.current,
+        recording ? { data: await readAsBase64(recording), mimeType: recording.type } : undefined,
+        personaIdRef.current
+      );
+      setSavedThreadId(threadId);
+    } catch (e) {
+      console.error("Failed to save call transcript", e);
+      setError("The call transcript could not be saved.");
+    } finally {
+      setIsSaving(false);
     }
-    if (inputContextRef.current) inputContextRef.current.close();
-    if (outputContextRef.current) outputContextRef.current.close();
-    if (frameIntervalRef.current) clearInterval(frameIntervalRef.current);
-    
-    setIsConnected(false);
-    sessionRef.current = null;
+  };
+
+  // Safe to call repeatedly: End Call, a failed reconnect and unmount can all land here
+  const teardown = () => {
+    // Must run before the output context closes, while the recorder can still flush
+    saveCall();
+    callIdRef.current++;
+    const connection = connectionRef.current;
+    connectionRef.current = null;
+    connection?.close();
+    streamRef.current?.getTracks().forEach(t => t.stop());
+    streamRef.current = null;
+    videoStreamRef.current?.getTracks().forEach(t => t.stop());
+    videoStreamRef.current = null;
+    captureRef.current?.stop();
+    captureRef.current = null;
+    sourcesRef.current.forEach(s => s.stop());
+    sourcesRef.current.clear();
+    const ctx = outputContextRef.current;
+    outputContextRef.current = null;
+    if (ctx && ctx.state !== 'closed') ctx.close();
+    if (frameTimerRef.current !== null) clearTimeout(frameTimerRef.current);
+    frameTimerRef.current = null;
+    mediaStartedRef.current = false;
+    setMicLevels(new Array(METER_BARS).fill(0));
+    setIsSpeaking(false);
+  };
+
+  const stopSession = () => {
+    teardown();
+    setStatus('ended');
   };
 
   // Cleanup on unmount
   useEffect(() => {
-    return () => stopSession();
+    return () => teardown();
   }, []);
 
   return (
     <div className="flex flex-col items-center justify-center h-full p-6 space-y-8 animate-fade-in">
       <div className="relative w-full max-w-2xl aspect-video bg-black rounded-2xl overflow-hidden border border-gray-700 shadow-2xl">
-        <video ref={videoRef} className="w-full h-full object-cover opacity-80" muted playsInline />
+        <video ref={videoRef} className={`w-full h-full opacity-80 ${videoSource.kind === 'screen' ? 'object-contain' : 'object-cover'}`} muted playsInline />
         <canvas ref={canvasRef} className="hidden" />
         
         {/* Overlay UI */}
         <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
-          {!isConnected && (
+          {status === 'connecting' && (
+            <div className="bg-black/80 backdrop-blur-md px-6 py-4 rounded-xl border border-gray-700 text-gray-300">Connecting...</div>
+          )}
+
+          {!isConnected && status !== 'connecting' && (
             <div className="bg-black/80 backdrop-blur-md p-6 rounded-xl border border-gray-700 text-center pointer-events-auto">
                <div className="text-4xl mb-4">🎙️</div>
                <h2 className="text-xl font-bold text-white mb-2">Gemini Live</h2>
                <p className="text-gray-400 mb-6 max-w-xs">Real-time voice and video conversation powered by Gemini 2.5.</p>
+               <div className="flex items-center justify-center gap-2 mb-3">
+                 <PersonaPicker value={findPersona(personaId).id} onChange={setPersonaId} />
+               </div>
+               <div className="mb-4">
+                 <LiveVideoControls source={videoSource} onSourceChange={changeVideoSource} settings={frameSettings} onSettingsChange={setFrameSettings} />
+               </div>
+               <label className="flex items-center justify-center gap-2 text-sm text-gray-400 mb-4 cursor-pointer">
+                 <input type="checkbox" checked={recordAudio} onChange={e => setRecordAudio(e.target.checked)} />
+                 Save a recording with the transcript
+               </label>
                <button 
                  onClick={startSession}
                  className="px-6 py-3 bg-yellow-500 hover:bg-yellow-400 text-black font-bold rounded-full transition-all hover:scale-105 active:scale-95"
@@ -201,6 +413,16 @@ const LiveSession: React.FC = () => {
             </div>
           )}
           
+          {isConnected && (videoSource.kind === 'none' || videoPaused) && (
+            <div className="text-gray-400 text-sm">{videoPaused ? '⏸️ Video paused' : '🎙️ Audio only'}</div>
+          )}
+
+          {isConnected && (
+            <div className={`absolute top-4 left-4 px-3 py-1 rounded-full text-xs font-semibold ${status === 'live' ? 'bg-green-600/80 text-white' : 'bg-yellow-500/90 text-black'}`}>
+              {status === 'reconnecting' ? '🔄 Reconnecting...' : isSpeaking ? '🗣️ Speaking' : '🟢 Listening'}
+            </div>
+          )}
+
           {error && (
             <div className="absolute top-4 bg-red-500/90 text-white px-4 py-2 rounded-lg">
               {error}
@@ -211,11 +433,12 @@ const LiveSession: React.FC = () => {
         {/* Visualizer when connected */}
         {isConnected && (
           <div className="absolute bottom-0 w-full h-32 bg-gradient-to-t from-black via-black/50 to-transparent flex items-end justify-center gap-1 pb-8">
-             {visualizerData.map((h, i) => (
+             {micLevels.map((level, i) => (
                <div 
                  key={i} 
                  className="w-3 bg-yellow-400 rounded-t-full transition-all duration-75"
-                 style={{ height: `${Math.max(10, h)}px` }}
+                 // Square root so quiet speech still moves the meter
+                 style={{ height: `${10 + Math.min(1, Math.sqrt(level) * 1.5) * 80}px` }}
                />
              ))}
           </div>
@@ -223,6 +446,47 @@ const LiveSession: React.FC = () => {
       </div>
 
       {isConnected && (
+        <LiveVideoControls
+          source={videoSource}
+          onSourceChange={changeVideoSource}
+          settings={frameSettings}
+          onSettingsChange={setFrameSettings}
+          isPaused={videoPaused}
+          onTogglePause={() => setVideoPaused(!videoPaused)}
+        />
+      )}
+
+      {/* Live captions */}
+      {transcript.length > 0 && (
+        <div className="w-full max-w-2xl max-h-48 overflow-y-auto bg-gray-900 border border-gray-800 rounded-xl p-4 space-y-2 text-sm">
+          {transcript.map((entry, i) => (
+            <div key={i} className="flex gap-3">
+              <span className="text-xs text-gray-500 tabular-nums pt-0.5 shrink-0">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+              {entry.toolCalls ? (
+                <div className="flex-1"><ToolCallList calls={entry.toolCalls} /></div>
+              ) : (
+                <span className={entry.role === 'user' ? 'text-gray-300' : 'text-yellow-300'}>
+                  <span className="font-semibold">{entry.role === 'user' ? 'You' : findPersona(personaId).name}: </span>
+                  {entry.text}
+                </span>
+              )}
+            </div>
+          ))}
+          <div ref={captionsEndRef} />
+        </div>
+      )}
+
+      {!isConnected && (isSaving || savedThreadId) && (
+        <div className="text-sm text-gray-400">
+          {isSaving ? 'Saving transcript...' : (
+            <button onClick={() => onOpenThread(AppMode.CHAT, savedThreadId!)} className="text-yellow-400 hover:underline">
+              📝 Transcript saved · continue in chat →
+            </button>
+          )}
+        </div>
+      )}
+
+      {(isConnected || status === 'connecting') && (
          <button 
            onClick={stopSession}
            className="px-8 py-4 bg-red-600 hover:bg-red-500 text-white font-bold rounded-full shadow-lg transition-transform hover:scale-105"
@@ -0,0 +1,55 @@
+import React, { useEffect, useState } from 'react';
+import { FRAME_RATES, FRAME_WIDTHS, VideoFrameSettings, VideoSource, listCameras, sourceFromKey, sourceKey } from '../services/videoSources';
+
+interface LiveVideoControlsProps {
+  source: VideoSource;
+  onSourceChange: (source: VideoSource) => void;
+  settings: VideoFrameSettings;
+  onSettingsChange: (settings: VideoFrameSettings) => void;
+  isPaused?: boolean;
+  onTogglePause?: () => void; // only offered during a call
+}
+
+const selectClass = "bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs";
+
+const LiveVideoControls: React.FC<LiveVideoControlsProps> = ({ source, onSourceChange, settings, onSettingsChange, isPaused, onTogglePause }) => {
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+
+  useEffect(() => {
+    const refresh = () => listCameras().then(setCameras).catch(e => console.error("Failed to list cameras", e));
+    refresh();
+    // Labels only appear after a permission grant, and devices come and go
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, [source]);
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2">
+      <select className={selectClass} value={sourceKey(source)} onChange={e => onSourceChange(sourceFromKey(e.target.value))}>
+        {cameras.length === 0 && <option value="camera:">📷 Camera</option>}
+        {cameras.map((c, i) => (
+          <option key={c.deviceId} value={`camera:${c.deviceId}`}>📷 {c.label || `Camera ${i + 1}`}</option>
+        ))}
+        <option value="screen">🖥️ Screen / tab</option>
+        <option value="none">🎙️ Audio only</option>
+      </select>
+      {source.kind !== 'none' && (
+        <>
+          <select className={selectClass} value={settings.fps} onChange={e => onSettingsChange({ ...settings, fps: parseFloat(e.target.value) })} title="Frames sent per second">
+            {FRAME_RATES.map(fps => <option key={fps} value={fps}>{fps} fps</option>)}
+          </select>
+          <select className={selectClass} value={settings.maxWidth} onChange={e => onSettingsChange({ ...settings, maxWidth: parseInt(e.target.value, 10) })} title="Maximum frame width">
+            {FRAME_WIDTHS.map(w => <option key={w} value={w}>{w}px</option>)}
+          </select>
+          {onTogglePause && (
+            <button onClick={onTogglePause} className={`${selectClass} ${isPaused ? 'text-yellow-400' : 'text-gray-300'} hover:bg-gray-700`}>
+              {isPaused ? '▶️ Resume video' : '⏸️ Pause video'}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LiveVideoControls;
@@ -0,0 +1,147 @@
+import React, { useMemo, useState } from 'react';
+import katex from 'katex';
+import { GroundingChunk } from '../types';
+import { MdBlock, MdInline, isSafeUrl, parseMarkdown } from '../services/markdown';
+import { tokenize, TokenType } from '../services/syntaxHighlight';
+
+interface MarkdownProps {
+  text: string;
+  grounding?: GroundingChunk[];
+}
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  plain: '',
+  comment: 'text-gray-500 italic',
+  string: 'text-green-300',
+  number: 'text-orange-300',
+  keyword: 'text-purple-300',
+};
+
+// KaTeX escapes its input and is run with `trust: false`, so its HTML output is safe to inject.
+const MathSpan: React.FC<{ tex: string; display: boolean }> = ({ tex, display }) => {
+  const html = useMemo(
+    () => katex.renderToString(tex, { displayMode: display, throwOnError: false, trust: false }),
+    [tex, display]
+  );
+  return display
+    ? <div className="my-2 overflow-x-auto" dangerouslySetInnerHTML={{ __html: html }} />
+    : <span dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+const CodeBlock: React.FC<{ lang: string; code: string }> = ({ lang, code }) => {
+  const [copied, setCopied] = useState(false);
+  const tokens = useMemo(() => tokenize(code, lang), [code, lang]);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (e) {
+      console.error("Copy failed", e);
+    }
+  };
+
+  return (
+    <div className="my-3 rounded-lg border border-gray-700 bg-gray-950 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1 text-xs text-gray-400 bg-gray-900 border-b border-gray-700">
+        <span>{lang || 'code'}</span>
+        <button onClick={copy} className="hover:text-yellow-400 transition-colors">
+          {copied ? '✓ Copied' : '📋 Copy'}
+        </button>
+      </div>
+      <pre className="p-3 overflow-x-auto text-sm leading-relaxed">
+        <code>
+          {tokens.map((t, i) => t.type === 'plain' ? t.text : <span key={i} className={TOKEN_CLASSES[t.type]}>{t.text}</span>)}
+        </code>
+      </pre>
+    </div>
+  );
+};
+
+const renderInline = (nodes: MdInline[], grounding?: GroundingChunk[]): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text': return <React.Fragment key={i}>{node.text}</React.Fragment>;
+      case 'code': return <code key={i} className="px-1 py-0.5 rounded bg-gray-900 text-yellow-300 text-[0.9em]">{node.text}</code>;
+      case 'strong': return <strong key={i}>{renderInline(node.children, grounding)}</strong>;
+      case 'em': return <em key={i}>{renderInline(node.children, grounding)}</em>;
+      case 'del': return <del key={i}>{renderInline(node.children, grounding)}</del>;
+      case 'link': return <a key={i} href={node.href} target="_blank" rel="noreferrer" className="text-blue-400 hover:underline">{renderInline(node.children, grounding)}</a>;
+      case 'math': return <MathSpan key={i} tex={node.tex} display={false} />;
+      case 'br': return <br key={i} />;
+      case 'cite': {
+        // Markers only become links when they point at a grounding source
+        const sources = node.indices.map(n => {
+          const src = grounding?.[n - 1]?.web || grounding?.[n - 1]?.maps;
+          return { n, src: src && isSafeUrl(src.uri) ? src : undefined };
+        });
+        if (!sources.some(s => s.src)) return <React.Fragment key={i}>[{node.indices.join(', ')}]</React.Fragment>;
+        return (
+          <sup key={i} className="ml-0.5">
+            {sources.map(({ n, src }) => src
+              ? <a key={n} href={src.uri} target="_blank" rel="noreferrer" title={src.title} className="text-blue-400 hover:underline mr-0.5">[{n}]</a>
+              : <span key={n} className="mr-0.5">[{n}]</span>
+            )}
+          </sup>
+        );
+      }
+    }
+  });
+
+const ALIGN_CLASSES = { left: 'text-left', center: 'text-center', right: 'text-right' };
+
+const renderBlocks = (blocks: MdBlock[], grounding?: GroundingChunk[]): React.ReactNode[] =>
+  blocks.map((block, i) => {
+    switch (block.type) {
+      case 'heading': {
+        const sizes = ['text-2xl', 'text-xl', 'text-lg', 'text-base', 'text-sm', 'text-sm'];
+        const Tag = `h${block.level}` as 'h1';
+        return <Tag key={i} className={`${sizes[block.level - 1]} font-bold mt-4 mb-2`}>{renderInline(block.children, grounding)}</Tag>;
+      }
+      case 'paragraph': return <p key={i} className="my-2 leading-relaxed">{renderInline(block.children, grounding)}</p>;
+      case 'code': return <CodeBlock key={i} lang={block.lang} code={block.code} />;
+      case 'math': return <MathSpan key={i} tex={block.tex} display />;
+      case 'hr': return <hr key={i} className="my-4 border-gray-700" />;
+      case 'quote': return <blockquote key={i} className="my-2 pl-3 border-l-4 border-gray-600 text-gray-300">{renderBlocks(block.children, grounding)}</blockquote>;
+      case 'list': {
+        const items = block.items.map((item, j) => <li key={j} className="my-1">{renderBlocks(item, grounding)}</li>);
+        return block.ordered
+          ? <ol key={i} start={block.start} className="list-decimal pl-6 my-2 [&_p]:my-0">{items}</ol>
+          : <ul key={i} className="list-disc pl-6 my-2 [&_p]:my-0">{items}</ul>;
+      }
+      case 'table': return (
+        <div key={i} className="my-3 overflow-x-auto">
+          <table className="text-sm border-collapse">
+            <thead>
+              <tr>
+                {block.header.map((cell, c) => (
+                  <th key={c} className={`border border-gray-700 px-3 py-1 bg-gray-900 ${block.align[c] ? ALIGN_CLASSES[block.align[c]!] : 'text-left'}`}>
+                    {renderInline(cell, grounding)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, r) => (
+                <tr key={r}>
+                  {row.map((cell, c) => (
+                    <td key={c} className={`border border-gray-700 px-3 py-1 ${block.align[c] ? ALIGN_CLASSES[block.align[c]!] : ''}`}>
+                      {renderInline(cell, grounding)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    }
+  });
+
+const Markdown: React.FC<MarkdownProps> = ({ text, grounding }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <div className="break-words [&>*:first-child]:mt-0 [&>*:last-child]:mb-0">{renderBlocks(blocks, grounding)}</div>;
+};
+
+export default Markdown;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Attachment } from '../types';
+import { attachmentIcon, formatBytes } from '../services/attachments';
+
+interface MessageAttachmentsProps {
+  attachments: Attachment[];
+  onEditImage?: (index: number) => void;
+}
+
+const MessageAttachments: React.FC<MessageAttachmentsProps> = ({ attachments, onEditImage }) => {
+  const images = attachments.filter(a => a.mimeType.startsWith('image/') && a.data);
+  const others = attachments.filter(a => !images.includes(a));
+
+  return (
+    <div className="mb-2 space-y-2">
+      {images.length > 0 && (
+        <div className={`grid gap-2 ${images.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+          {images.map((a, i) => (
+            <div key={i} className="relative group">
+              <img src={`data:${a.mimeType};base64,${a.data}`} alt={a.name} className="max-h-60 rounded-lg object-cover" />
+              {onEditImage && (
+                <button
+                  onClick={() => onEditImage(attachments.indexOf(a))}
+                  className="absolute top-1 right-1 hidden group-hover:block bg-black/70 text-yellow-400 text-xs px-2 py-1 rounded"
+                >
+                  ✏️ Edit
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      {others.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {others.map((a, i) => (
+            <div key={i} className="flex items-center gap-2 px-2 py-1 rounded-lg bg-black/20 text-xs max-w-xs" title={a.name}>
+              <span>{attachmentIcon(a.mimeType)}</span>
+              <span className="truncate">{a.name}</span>
+              <span className="opacity-60 shrink-0">{formatBytes(a.size)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MessageAttachments;
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Persona, ResponseStyle } from '../types';
+import { LANGUAGES, VOICES, deletePersona, getDefaultPersonaId, loadPersonas, savePersona, setDefaultPersonaId } from '../services/personas';
+
+interface PersonaEditorProps {
+  initialId: string;
+  onClose: () => void;
+}
+
+const inputClass = "mt-1 w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm";
+
+const blankPersona = (): Persona => ({ id: '', name: 'New persona', systemPrompt: '', voice: VOICES[0], style: 'balanced' });
+
+const PersonaEditor: React.FC<PersonaEditorProps> = ({ initialId, onClose }) => {
+  const [personas, setPersonas] = useState<Persona[]>(loadPersonas);
+  const [draft, setDraft] = useState<Persona>(() => personas.find(p => p.id === initialId) || personas[0]);
+  const [defaultId, setDefaultId] = useState(getDefaultPersonaId);
+
+  const update = (changes: Partial<Persona>) => setDraft({ ...draft, ...changes });
+
+  const refresh = (selectId?: string) => {
+    const next = loadPersonas();
+    setPersonas(next);
+    setDraft(next.find(p => p.id === selectId) || next[0]);
+    setDefaultId(getDefaultPersonaId());
+  };
+
+  const save = () => {
+    if (!draft.name.trim()) return;
+    const saved = savePersona({ ...draft, name: draft.name.trim(), id: draft.id || undefined });
+    refresh(saved.id);
+  };
+
+  const remove = () => {
+    if (!draft.id) return refresh();
+    deletePersona(draft.id);
+    refresh(draft.builtIn ? draft.id : undefined);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-3xl max-h-full overflow-hidden bg-gray-900 border border-gray-700 rounded-xl shadow-2xl flex" onClick={e => e.stopPropagation()}>
+        <div className="w-48 shrink-0 border-r border-gray-800 p-3 space-y-1 overflow-y-auto">
+          {personas.map(p => (
+            <button
+              key={p.id}
+              onClick={() => setDraft(p)}
+              className={`w-full text-left text-sm px-2 py-1 rounded truncate ${draft.id === p.id ? 'bg-gray-800 text-yellow-400' : 'text-gray-300 hover:bg-gray-800'}`}
+            >
+              {p.name}{p.id === defaultId && ' ★'}
+            </button>
+          ))}
+          <button onClick={() => setDraft(blankPersona())} className="w-full text-left text-sm px-2 py-1 rounded text-gray-400 hover:bg-gray-800">+ New persona</button>
+        </div>
+
+        <div className="flex-1 p-4 space-y-3 overflow-y-auto text-sm">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold">🎭 Personas</h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-white text-xl">✕</button>
+          </div>
+          <label className="block">
+            <span className="text-gray-400">Name</span>
+            <input value={draft.name} onChange={e => update({ name: e.target.value })} className={inputClass} />
+          </label>
+          <label className="block">
+            <span className="text-gray-400">System prompt</span>
+            <textarea value={draft.systemPrompt} onChange={e => update({ systemPrompt: e.target.value })} rows={5} className={inputClass} />
+          </label>
+          <div className="grid grid-cols-3 gap-3">
+            <label className="block">
+              <span className="text-gray-400">Voice</span>
+              <select value={draft.voice} onChange={e => update({ voice: e.target.value })} className={inputClass}>
+                {VOICES.map(v => <option key={v} value={v}>{v}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-gray-400">Language</span>
+              <select value={draft.language || ''} onChange={e => update({ language: e.target.value || undefined })} className={inputClass}>
+                <option value="">Match the user</option>
+                {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-gray-400">Response style</span>
+              <select value={draft.style} onChange={e => update({ style: e.target.value as ResponseStyle })} className={inputClass}>
+                <option value="concise">Concise</option>
+                <option value="balanced">Balanced</option>
+                <option value="detailed">Detailed</option>
+              </select>
+            </label>
+          </div>
+          <div className="flex items-center gap-2 pt-2">
+            <button onClick={save} className="px-3 py-1 rounded bg-yellow-500 text-black font-bold disabled:opacity-50" disabled={!draft.name.trim()}>Save</button>
+            {draft.id && draft.id !== defaultId && (
+              <button onClick={() => { setDefaultPersonaId(draft.id); setDefaultId(draft.id); }} className="px-3 py-1 rounded bg-gray-800 hover:bg-gray-700">★ Make default</button>
+            )}
+            <button onClick={remove} className="ml-auto px-3 py-1 rounded text-red-400 hover:bg-gray-800">
+              {draft.builtIn ? 'Reset to original' : 'Delete'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PersonaEditor;
@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+import { loadPersonas } from '../services/personas';
+import PersonaEditor from './PersonaEditor';
+
+interface PersonaPickerProps {
+  value: string;
+  onChange: (personaId: string) => void;
+}
+
+const PersonaPicker: React.FC<PersonaPickerProps> = ({ value, onChange }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  // Re-read after the editor closes so new and renamed personas show up
+  const [personas, setPersonas] = useState(loadPersonas);
+
+  return (
+    <>
+      <select
+        className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs"
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        title="Persona"
+      >
+        {personas.map(p => <option key={p.id} value={p.id}>🎭 {p.name}</option>)}
+      </select>
+      <button onClick={() => setIsEditing(true)} className="text-xs text-gray-400 hover:text-yellow-300" title="Edit personas">✏️</button>
+      {isEditing && (
+        <PersonaEditor
+          initialId={value}
+          onClose={() => {
+            setIsEditing(false);
+            const next = loadPersonas();
+            setPersonas(next);
+            if (!next.some(p => p.id === value)) onChange(next[0].id);
+          }}
+        />
+      )}
+    </>
+  );
+};
+
+export default PersonaPicker;
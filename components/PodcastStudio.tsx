@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { PodcastScript, PodcastSpeaker } from '../types';
+import { PodcastSource, generatePodcastScript, uploadFile } from '../services/geminiService';
+import { DEFAULT_SPEAKERS, PODCAST_LENGTHS, conversationText, podcastTranscript, renderPodcast, validateSpeakers } from '../services/podcast';
+import { ACCEPT_ATTRIBUTE, PendingAttachment, formatBytes, prepareAttachments, validateFiles } from '../services/attachments';
+import { loadMessages } from '../services/conversationStore';
+import { confirmBudget } from '../services/usage';
+import { VOICES } from '../services/personas';
+import { downloadBlob } from '../services/download';
+import SpeechPlayer from './SpeechPlayer';
+
+interface PodcastStudioProps {
+  chatThreadId: string | null; // thread open in chat mode, offered as source material
+}
+
+type SourceKind = 'topic' | 'document' | 'chat';
+
+const inputClass = "w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm focus:outline-none focus:border-yellow-500";
+
+const PodcastStudio: React.FC<PodcastStudioProps> = ({ chatThreadId }) => {
+  const [sourceKind, setSourceKind] = useState<SourceKind>('topic');
+  const [topic, setTopic] = useState('');
+  const [documentFile, setDocumentFile] = useState<PendingAttachment | null>(null);
+  const [lengthId, setLengthId] = useState(PODCAST_LENGTHS[0].id);
+  const [speakers, setSpeakers] = useState<[PodcastSpeaker, PodcastSpeaker]>(DEFAULT_SPEAKERS);
+  const [script, setScript] = useState<PodcastScript | null>(null);
+  const [audioData, setAudioData] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null); // progress of the current step
+  const [error, setError] = useState<string | null>(null);
+
+  const speakerProblem = validateSpeakers(speakers);
+  const hasSource = sourceKind === 'topic' ? !!topic.trim() : sourceKind === 'document' ? !!documentFile : !!chatThreadId;
+
+  const updateSpeaker = (index: 0 | 1, changes: Partial<PodcastSpeaker>) => {
+    const next: [PodcastSpeaker, PodcastSpeaker] = [speakers[0], speakers[1]];
+    next[index] = { ...next[index], ...changes };
+    setSpeakers(next);
+    if (script) setScript({ ...script, speakers: next });
+    setAudioData(null); // voices and names are baked into the audio
+  };
+
+  const editScript = (changes: Partial<PodcastScript>) => {
+    if (!script) return;
+    setScript({ ...script, ...changes });
+    setAudioData(null);
+  };
+
+  const updateLine = (index: number, changes: Partial<PodcastScript['lines'][number]>) =>
+    editScript({ lines: script!.lines.map((l, i) => i === index ? { ...l, ...changes } : l) });
+
+  const pickDocument = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { accepted, errors } = validateFiles([file], 0);
+    setError(errors.length > 0 ? errors.join('\n') : null);
+    if (accepted[0]) setDocumentFile(accepted[0]);
+  };
+
+  const writeScript = async () => {
+    setError(null);
+    setStatus('Writing the script...');
+    try {
+      // The budget is confirmed before a document is uploaded, so it is estimated from the file size
+      let conversation = '';
+      if (sourceKind === 'chat') {
+        conversation = conversationText(await loadMessages(chatThreadId!));
+        if (!conversation) throw new Error("The open chat thread has no text yet.");
+      }
+      const words = PODCAST_LENGTHS.find(l => l.id === lengthId)!.words;
+      const sourceCharacters = sourceKind === 'document' ? documentFile!.size
+        : sourceKind === 'chat' ? conversation.length : topic.trim().length;
+      if (!(await confirmBudget({ kind: 'podcast', sourceCharacters, targetWords: words }, 'Write'))) return;
+
+      let source: PodcastSource;
+      if (sourceKind === 'document') {
+        const [attachment] = await prepareAttachments([documentFile!], uploadFile);
+        source = { document: attachment };
+      } else if (sourceKind === 'chat') {
+        source = { conversation };
+      } else {
+        source = { topic: topic.trim() };
+      }
+      const result = await generatePodcastScript(source, [speakers[0].name.trim(), speakers[1].name.trim()], words);
+      setScript({ ...result, speakers });
+      setAudioData(null);
+    } catch (e: any) {
+      console.error("Podcast script failed", e);
+      setError(`Could not write the script: ${e.message || 'unknown error'}`);
+    } finally {
+      setStatus(null);
+    }
+  };
+
+  const renderAudio = async () => {
+    if (!script) return;
+    if (!(await confirmBudget({ kind: 'speech', characters: podcastTranscript(script).length }, 'Record'))) return;
+    setError(null);
+    setStatus('Recording the episode...');
+    try {
+      setAudioData(await renderPodcast(script, (done, total) => {
+        if (total > 1) setStatus(`Recording the episode (${done + 1}/${total})...`);
+      }));
+    } catch (e: any) {
+      console.error("Podcast rendering failed", e);
+      setError(`Could not render the audio: ${e.message || 'unknown error'}`);
+    } finally {
+      setStatus(null);
+    }
+  };
+
+  const fileBase = (script?.title || 'podcast').replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'podcast';
+
+  return (
+    <div className="h-full overflow-y-auto bg-gray-900 text-white">
+      <div className="max-w-3xl mx-auto p-6 space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold">🎧 Podcast Studio</h2>
+          <p className="text-sm text-gray-400">Turn a topic, a document or a chat into a two-host audio episode.</p>
+        </div>
+
+        {/* Source */}
+        <section className="space-y-3">
+          <div className="flex gap-2 text-sm">
+            {([['topic', '💡 Topic'], ['document', '📄 Document'], ['chat', '💬 Current chat']] as [SourceKind, string][]).map(([kind, label]) => (
+              <button
+                key={kind}
+                onClick={() => setSourceKind(kind)}
+                className={`px-3 py-1 rounded-full border ${sourceKind === kind ? 'border-yellow-500 text-yellow-400 bg-yellow-500/10' : 'border-gray-700 text-gray-400 hover:bg-gray-800'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {sourceKind === 'topic' && (
+            <textarea value={topic} onChange={e => setTopic(e.target.value)} rows={3} placeholder="What should the episode be about?" className={inputClass} />
+          )}
+          {sourceKind === 'document' && (
+            <label className="flex items-center gap-3 text-sm text-gray-400 cursor-pointer">
+              <span className="px-3 py-1 rounded bg-gray-800 hover:bg-gray-700 text-gray-200">Choose file</span>
+              {documentFile ? `${documentFile.name} (${formatBytes(documentFile.size)})` : 'PDF, text or Markdown works best'}
+              <input type="file" className="hidden" accept={ACCEPT_ATTRIBUTE} onChange={pickDocument} />
+            </label>
+          )}
+          {sourceKind === 'chat' && (
+            <p className="text-sm text-gray-400">
+              {chatThreadId ? 'Uses the thread currently open in Ultra Chat.' : 'Open a chat thread first; its messages become the source.'}
+            </p>
+          )}
+        </section>
+
+        {/* Hosts */}
+        <section className="grid grid-cols-2 gap-3">
+          {speakers.map((speaker, i) => (
+            <div key={i} className="flex gap-2">
+              <input value={speaker.name} onChange={e => updateSpeaker(i as 0 | 1, { name: e.target.value })} className={inputClass} placeholder={`Host ${i + 1}`} />
+              <select value={speaker.voice} onChange={e => updateSpeaker(i as 0 | 1, { voice: e.target.value })} className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm">
+                {VOICES.map(v => <option key={v} value={v}>{v}</option>)}
+              </select>
+            </div>
+          ))}
+        </section>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <select value={lengthId} onChange={e => setLengthId(e.target.value)} className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm">
+            {PODCAST_LENGTHS.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+          </select>
+          <button
+            onClick={writeScript}
+            disabled={!hasSource || !!speakerProblem || !!status}
+            className="px-4 py-2 rounded-full bg-yellow-500 hover:bg-yellow-400 text-black font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {script ? '✍️ Rewrite script' : '✍️ Write script'}
+          </button>
+          {speakerProblem && <span className="text-xs text-red-400">{speakerProblem}</span>}
+        </div>
+
+        {status && <div className="text-sm text-gray-400 animate-pulse">{status}</div>}
+        {error && <div className="text-sm text-red-400 whitespace-pre-wrap">{error}</div>}
+
+        {/* Script editor */}
+        {script && (
+          <section className="space-y-3">
+            <input value={script.title} onChange={e => editScript({ title: e.target.value })} className={`${inputClass} text-lg font-semibold`} />
+            {script.lines.map((line, i) => (
+              <div key={i} className="flex gap-2 items-start">
+                <select
+                  value={line.speaker}
+                  onChange={e => updateLine(i, { speaker: parseInt(e.target.value, 10) as 0 | 1 })}
+                  className={`w-28 shrink-0 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm ${line.speaker === 0 ? 'text-yellow-300' : 'text-blue-300'}`}
+                >
+                  {speakers.map((s, idx) => <option key={idx} value={idx}>{s.name || `Host ${idx + 1}`}</option>)}
+                </select>
+                <textarea value={line.text} onChange={e => updateLine(i, { text: e.target.value })} rows={2} className={inputClass} />
+                <button onClick={() => editScript({ lines: script.lines.filter((_, idx) => idx !== i) })} className="text-gray-500 hover:text-red-400 pt-1" title="Remove line">✕</button>
+              </div>
+            ))}
+            <button
+              onClick={() => editScript({ lines: [...script.lines, { speaker: script.lines.length > 0 && script.lines[script.lines.length - 1].speaker === 0 ? 1 : 0, text: '' }] })}
+              className="text-sm text-gray-400 hover:text-white"
+            >
+              + Add line
+            </button>
+
+            <div className="flex flex-wrap items-center gap-3 pt-2">
+              <button
+                onClick={renderAudio}
+                disabled={!!status || !!speakerProblem || !script.lines.some(l => l.text.trim())}
+                className="px-4 py-2 rounded-full bg-yellow-500 hover:bg-yellow-400 text-black font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                🎙️ {audioData ? 'Re-record audio' : 'Record audio'}
+              </button>
+              <button
+                onClick={() => downloadBlob(new Blob([podcastTranscript(script)], { type: 'text/markdown' }), `${fileBase}.md`)}
+                className="px-3 py-2 rounded-full bg-gray-800 hover:bg-gray-700 text-sm"
+              >
+                📝 Download transcript
+              </button>
+            </div>
+            {audioData && <SpeechPlayer audioData={audioData} fileName={`${fileBase}.wav`} autoPlay />}
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PodcastStudio;
@@ -1,19 +1,24 @@
 import React from 'react';
 import { AppMode } from '../types';
+import ThreadList from './ThreadList';
 
 interface SidebarProps {
   currentMode: AppMode;
   setMode: (mode: AppMode) => void;
   isOpen: boolean;
   setIsOpen: (open: boolean) => void;
+  activeThreadId: string | null;
+  onSelectThread: (mode: AppMode, threadId: string | null) => void;
+  onOpenUsage: () => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ currentMode, setMode, isOpen, setIsOpen }) => {
+const Sidebar: React.FC<SidebarProps> = ({ currentMode, setMode, isOpen, setIsOpen, activeThreadId, onSelectThread, onOpenUsage }) => {
   const modes = [
     { id: AppMode.CHAT, icon: '💬', label: 'Ultra Chat' },
     { id: AppMode.IMAGE_GEN, icon: '🎨', label: 'Nano Banana Image' },
     { id: AppMode.VIDEO_GEN, icon: '🎬', label: 'Veo Video' },
     { id: AppMode.LIVE, icon: '🎙️', label: 'Live Conversation' },
+    { id: AppMode.PODCAST, icon: '🎧', label: 'Podcast Studio' },
   ];
 
   return (
@@ -26,7 +31,7 @@ const Sidebar: React.FC<SidebarProps> = ({ currentMode, setMode, isOpen, setIsOp
         />
       )}
 
-      <div className={`fixed md:relative z-30 w-64 h-full bg-gray-900 border-r border-gray-800 transform transition-transform duration-300 ease-in-out ${isOpen ? 'translate-x-0' : '-translate-x-full md:translate-x-0'}`}>
+      <div className={`fixed md:relative z-30 w-64 h-full flex flex-col bg-gray-900 border-r border-gray-800 transform transition-transform duration-300 ease-in-out ${isOpen ? 'translate-x-0' : '-translate-x-full md:translate-x-0'}`}>
         <div className="p-6 border-b border-gray-800">
           <h1 className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-yellow-400 to-orange-500">
             Nano-Banana
@@ -54,10 +59,28 @@ const Sidebar: React.FC<SidebarProps> = ({ currentMode, setMode, isOpen, setIsOp
           ))}
         </nav>
 
-        <div className="absolute bottom-0 w-full p-4 border-t border-gray-800">
-            <div className="text-xs text-gray-500 text-center">
+        {currentMode !== AppMode.LIVE && currentMode !== AppMode.PODCAST && (
+          <ThreadList
+            mode={currentMode}
+            activeThreadId={activeThreadId}
+            onSelectThread={(mode, threadId) => {
+              onSelectThread(mode, threadId);
+              setIsOpen(false);
+            }}
+          />
+        )}
+
+        <div className="absolute bottom-0 w-full p-4 border-t border-gray-800 flex items-center justify-between">
+            <div className="text-xs text-gray-500">
                 Built with Google GenAI SDK
             </div>
+            <button
+              onClick={() => { onOpenUsage(); setIsOpen(false); }}
+              className="text-xs text-gray-400 hover:text-yellow-400"
+              title="Token usage, costs and budget"
+            >
+              📊 Usage
+            </button>
         </div>
       </div>
     </>
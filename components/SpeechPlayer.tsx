@@ -0,0 +1,151 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { decode, decodeAudioData } from '../services/audioUtils';
+import { PLAYBACK_RATES, SPEECH_SAMPLE_RATE, speechToWav } from '../services/speech';
+import { VOICES } from '../services/personas';
+import { downloadBlob } from '../services/download';
+
+interface SpeechPlayerProps {
+  audioData: string; // base64 PCM from the TTS model
+  voice?: string;
+  onVoiceChange?: (voice: string) => void; // regenerates the audio; the voice picker is hidden without it
+  fileName: string;
+  autoPlay?: boolean;
+}
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+const SpeechPlayer: React.FC<SpeechPlayerProps> = ({ audioData, voice, onVoiceChange, fileName, autoPlay }) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [rate, setRate] = useState(1);
+
+  const ctxRef = useRef<AudioContext | null>(null);
+  const bufferRef = useRef<AudioBuffer | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  // Playback position is offsetRef at context time startedAtRef, advancing at rateRef
+  const offsetRef = useRef(0);
+  const startedAtRef = useRef(0);
+  const rateRef = useRef(rate);
+  rateRef.current = rate;
+
+  const currentPosition = () => {
+    const ctx = ctxRef.current;
+    if (!ctx || !sourceRef.current) return offsetRef.current;
+    return Math.min(bufferRef.current?.duration ?? 0, offsetRef.current + (ctx.currentTime - startedAtRef.current) * rateRef.current);
+  };
+
+  const halt = () => {
+    const source = sourceRef.current;
+    sourceRef.current = null; // before stop(), so its 'ended' handler knows it was replaced
+    source?.stop();
+  };
+
+  const play = async (from = offsetRef.current) => {
+    const ctx = ctxRef.current;
+    const buffer = bufferRef.current;
+    if (!ctx || !buffer) return; // still decoding
+    if (ctx.state === 'suspended') await ctx.resume();
+
+    halt();
+    const start = from >= buffer.duration ? 0 : from;
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = rateRef.current;
+    source.connect(ctx.destination);
+    source.addEventListener('ended', () => {
+      if (sourceRef.current !== source) return;
+      sourceRef.current = null;
+      offsetRef.current = 0;
+      setPosition(0);
+      setIsPlaying(false);
+    });
+    source.start(0, start);
+    sourceRef.current = source;
+    offsetRef.current = start;
+    startedAtRef.current = ctx.currentTime;
+    setIsPlaying(true);
+  };
+
+  const pause = () => {
+    offsetRef.current = currentPosition();
+    halt();
+    setPosition(offsetRef.current);
+    setIsPlaying(false);
+  };
+
+  const seek = (to: number) => {
+    setPosition(to);
+    if (sourceRef.current) play(to);
+    else offsetRef.current = to;
+  };
+
+  const changeRate = (next: number) => {
+    if (sourceRef.current) {
+      offsetRef.current = currentPosition();
+      startedAtRef.current = ctxRef.current!.currentTime;
+      sourceRef.current.playbackRate.value = next;
+    }
+    setRate(next);
+  };
+
+  // New audio (e.g. another voice) starts over
+  useEffect(() => {
+    halt();
+    bufferRef.current = null;
+    offsetRef.current = 0;
+    setPosition(0);
+    setIsPlaying(false);
+    const ctx = new (window.AudioContext || window.webkitAudioContext)({ sampleRate: SPEECH_SAMPLE_RATE });
+    ctxRef.current = ctx;
+    decodeAudioData(decode(audioData), ctx, SPEECH_SAMPLE_RATE, 1).then(buffer => {
+      if (ctxRef.current !== ctx) return;
+      bufferRef.current = buffer;
+      setDuration(buffer.duration);
+      if (autoPlay) play(0);
+    });
+    return () => {
+      halt();
+      if (ctxRef.current === ctx) ctxRef.current = null;
+      if (ctx.state !== 'closed') ctx.close();
+    };
+  }, [audioData]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setInterval(() => setPosition(currentPosition()), 200);
+    return () => clearInterval(timer);
+  }, [isPlaying]);
+
+  const selectClass = "bg-gray-900 border border-gray-700 rounded px-1 py-0.5";
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-400 bg-gray-900/60 border border-gray-700 rounded-lg px-2 py-1 max-w-md">
+      <button onClick={() => isPlaying ? pause() : play()} className="text-yellow-400 hover:text-yellow-300 w-5" title={isPlaying ? 'Pause' : 'Play'}>
+        {isPlaying ? '⏸' : '▶️'}
+      </button>
+      <span className="tabular-nums">{formatTime(position)}</span>
+      <input
+        type="range"
+        min={0}
+        max={duration || 0}
+        step={0.1}
+        value={Math.min(position, duration)}
+        onChange={e => seek(parseFloat(e.target.value))}
+        className="flex-1 min-w-[6rem] accent-yellow-500"
+      />
+      <span className="tabular-nums">{formatTime(duration)}</span>
+      <select className={selectClass} value={rate} onChange={e => changeRate(parseFloat(e.target.value))} title="Speed">
+        {PLAYBACK_RATES.map(r => <option key={r} value={r}>{r}×</option>)}
+      </select>
+      {onVoiceChange && (
+        <select className={selectClass} value={voice} onChange={e => onVoiceChange(e.target.value)} title="Voice">
+          {VOICES.map(v => <option key={v} value={v}>{v}</option>)}
+        </select>
+      )}
+      <button onClick={() => downloadBlob(speechToWav(audioData), fileName)} className="hover:text-white" title="Download WAV">⬇️</button>
+    </div>
+  );
+};
+
+export default SpeechPlayer;
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { ExportedFile, exportThreadHtml, exportThreadJson, exportThreadMarkdown } from '../services/threadExport';
+import { downloadBlob } from '../services/download';
+
+interface ThreadExportMenuProps {
+  threadId: string;
+}
+
+const FORMATS: { label: string; run: (threadId: string) => Promise<ExportedFile> }[] = [
+  { label: '📝 Markdown (.zip)', run: exportThreadMarkdown },
+  { label: '🌐 HTML page', run: exportThreadHtml },
+  { label: '🧾 JSON (re-importable)', run: exportThreadJson },
+];
+
+const ThreadExportMenu: React.FC<ThreadExportMenuProps> = ({ threadId }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runExport = async (format: typeof FORMATS[number]) => {
+    setIsOpen(false);
+    setIsExporting(true);
+    setError(null);
+    try {
+      const { blob, fileName } = await format.run(threadId);
+      downloadBlob(blob, fileName);
+    } catch (e: any) {
+      console.error("Export failed", e);
+      setError(e.message || 'Export failed.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isExporting}
+        className="text-xs text-gray-400 hover:text-yellow-300 disabled:opacity-50"
+        title={error || 'Export this conversation'}
+      >
+        {isExporting ? '⏳' : error ? '⚠️' : '⬇️'} Export
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 z-30 w-48 bg-gray-900 border border-gray-700 rounded-lg shadow-xl py-1">
+          {FORMATS.map(format => (
+            <button key={format.label} onClick={() => runExport(format)} className="w-full text-left px-3 py-1.5 text-xs text-gray-300 hover:bg-gray-800">
+              {format.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThreadExportMenu;
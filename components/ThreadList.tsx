@@ -0,0 +1,145 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AppMode, Thread } from '../types';
+import { deleteThread, importThread, listThreads, renameThread, searchMessages, setThreadPinned, subscribe, SearchResult } from '../services/conversationStore';
+import { parseThreadExport } from '../services/threadExport';
+import { confirmToast, showToast } from '../services/toasts';
+
+interface ThreadListProps {
+  mode: AppMode;
+  activeThreadId: string | null;
+  onSelectThread: (mode: AppMode, threadId: string | null) => void;
+}
+
+const ThreadList: React.FC<ThreadListProps> = ({ mode, activeThreadId, onSelectThread }) => {
+  const [threads, setThreads] = useState<Thread[]>([]);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  // Bumped on every store change so both the list and search results refresh
+  const [revision, setRevision] = useState(0);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => subscribe(() => setRevision(r => r + 1)), []);
+
+  useEffect(() => {
+    listThreads(mode).then(setThreads).catch(e => console.error("Failed to list threads", e));
+  }, [mode, revision]);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+    const handle = window.setTimeout(() => {
+      searchMessages(query).then(setResults).catch(e => console.error("Search failed", e));
+    }, 200);
+    return () => clearTimeout(handle);
+  }, [query, revision]);
+
+  const commitRename = async () => {
+    if (editingId) await renameThread(editingId, editTitle);
+    setEditingId(null);
+  };
+
+  const handleDelete = async (thread: Thread) => {
+    if (!(await confirmToast(`Delete "${thread.title}"?`, 'Delete'))) return;
+    await deleteThread(thread.id);
+    if (thread.id === activeThreadId) onSelectThread(mode, null);
+  };
+
+  // Imported threads open in their own mode, which may differ from the current one
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { thread, messages } = parseThreadExport(await file.text());
+      const imported = await importThread(thread, messages);
+      onSelectThread(imported.mode, imported.id);
+    } catch (err: any) {
+      console.error("Import failed", err);
+      showToast(`Import failed: ${err.message || 'unknown error'}`, 'error');
+    }
+  };
+
+  return (
+    <div className="flex flex-col min-h-0 flex-1 px-4 pb-20">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs uppercase tracking-wide text-gray-500">Conversations</span>
+        <div className="flex items-center gap-3">
+          <input type="file" ref={importInputRef} onChange={handleImport} className="hidden" accept=".json,application/json" />
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="text-xs text-gray-400 hover:text-white"
+            title="Import a conversation exported as JSON"
+          >
+            ⬆ Import
+          </button>
+          <button
+            onClick={() => onSelectThread(mode, null)}
+            className="text-xs text-yellow-400 hover:text-yellow-300"
+          >
+            + New
+          </button>
+        </div>
+      </div>
+
+      <input
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        placeholder="Search messages..."
+        className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs mb-2 focus:outline-none focus:border-yellow-500"
+      />
+
+      <div className="flex-1 overflow-y-auto space-y-1">
+        {query.trim() ? (
+          results.length === 0 ? (
+            <div className="text-xs text-gray-500 px-2 py-1">No matches</div>
+          ) : results.map(r => (
+            <button
+              key={r.message.id}
+              onClick={() => onSelectThread(r.thread.mode, r.thread.id)}
+              className="w-full text-left px-2 py-1 rounded hover:bg-gray-800"
+            >
+              <div className="text-xs text-gray-300 truncate">{r.thread.title}</div>
+              <div className="text-xs text-gray-500 line-clamp-2">{r.snippet}</div>
+            </button>
+          ))
+        ) : threads.map(thread => (
+          <div
+            key={thread.id}
+            className={`group flex items-center gap-1 px-2 py-1 rounded text-sm ${
+              thread.id === activeThreadId ? 'bg-gray-800 text-white' : 'text-gray-400 hover:bg-gray-800'
+            }`}
+          >
+            {editingId === thread.id ? (
+              <input
+                autoFocus
+                value={editTitle}
+                onChange={e => setEditTitle(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="flex-1 bg-gray-900 border border-gray-700 rounded px-1 text-xs"
+              />
+            ) : (
+              <button onClick={() => onSelectThread(mode, thread.id)} className="flex-1 text-left truncate">
+                {thread.pinned && '📌 '}{thread.title}
+              </button>
+            )}
+            <div className="hidden group-hover:flex items-center gap-1 text-xs">
+              <button title={thread.pinned ? 'Unpin' : 'Pin'} onClick={() => setThreadPinned(thread.id, !thread.pinned)}>📌</button>
+              <button title="Rename" onClick={() => { setEditingId(thread.id); setEditTitle(thread.title); }}>✏️</button>
+              <button title="Delete" onClick={() => handleDelete(thread)}>🗑️</button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ThreadList;
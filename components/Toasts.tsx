@@ -0,0 +1,43 @@
+import React, { useEffect, useState } from 'react';
+import { dismissToast, listToasts, subscribeToasts } from '../services/toasts';
+
+const Toasts: React.FC = () => {
+  const [toasts, setToasts] = useState(listToasts);
+
+  useEffect(() => subscribeToasts(() => setToasts(listToasts())), []);
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 max-w-sm" role="status" aria-live="polite">
+      {toasts.map(toast => (
+        <div
+          key={toast.id}
+          className={`flex items-start gap-3 rounded-lg border px-4 py-3 text-sm shadow-lg ${
+            toast.kind === 'error' ? 'bg-red-950 border-red-800 text-red-200' : 'bg-gray-800 border-gray-700 text-gray-200'
+          }`}
+        >
+          <div className="flex-1">
+            <span className="whitespace-pre-wrap">{toast.text}</span>
+            {toast.actions && (
+              <div className="flex gap-2 mt-2">
+                {toast.actions.map((action, i) => (
+                  <button
+                    key={action.label}
+                    onClick={action.onClick}
+                    className={`px-3 py-1 rounded text-xs ${i === 0 ? 'bg-yellow-500 hover:bg-yellow-400 text-black font-bold' : 'bg-gray-700 hover:bg-gray-600'}`}
+                  >
+                    {action.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <button onClick={() => dismissToast(toast.id)} className="text-gray-400 hover:text-white" title="Dismiss">✕</button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default Toasts;
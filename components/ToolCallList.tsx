@@ -0,0 +1,27 @@
+import React from 'react';
+import { ToolCallRecord } from '../types';
+
+interface ToolCallListProps {
+  calls: ToolCallRecord[];
+}
+
+const formatArgs = (args: Record<string, unknown>) =>
+  Object.entries(args).map(([key, value]) => `${key}: ${JSON.stringify(value)}`).join(', ');
+
+const ToolCallList: React.FC<ToolCallListProps> = ({ calls }) => (
+  <div className="mb-2 space-y-1">
+    {calls.map((call, i) => (
+      <details key={i} className="text-xs rounded-lg bg-black/20 border border-gray-700 px-2 py-1">
+        <summary className="cursor-pointer select-none">
+          <span className={call.error ? 'text-red-400' : 'text-yellow-500/80'}>🔧 {call.name}</span>
+          <span className="text-gray-500"> ({formatArgs(call.args)})</span>
+        </summary>
+        <pre className="mt-1 whitespace-pre-wrap break-all text-gray-400">
+          {call.error ? `Error: ${call.error}` : JSON.stringify(call.result, null, 2)}
+        </pre>
+      </details>
+    ))}
+  </div>
+);
+
+export default ToolCallList;
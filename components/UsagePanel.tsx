@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { AppMode, Thread } from '../types';
+import { getThread } from '../services/conversationStore';
+import { confirmToast } from '../services/toasts';
+import {
+  UsageLimits, UsageTotals, clearUsage, dayKey, formatCost, formatTokens, getUsageLimits, groupUsage, listUsage,
+  saveUsageLimits, subscribeUsage, totalUsage,
+} from '../services/usage';
+
+interface UsagePanelProps {
+  onClose: () => void;
+  onOpenThread: (mode: AppMode, threadId: string) => void;
+}
+
+const DAYS_SHOWN = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const inputClass = "bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm focus:outline-none focus:border-yellow-500";
+
+const Summary: React.FC<{ label: string; totals: UsageTotals }> = ({ label, totals }) => (
+  <div className="bg-gray-800/60 border border-gray-700 rounded-lg p-3">
+    <div className="text-xs uppercase tracking-wide text-gray-500">{label}</div>
+    <div className="text-2xl font-bold text-yellow-400">{formatCost(totals.cost)}</div>
+    <div className="text-xs text-gray-400">
+      {formatTokens(totals.promptTokens + totals.outputTokens + totals.thinkingTokens)} tokens · {totals.images} images · {totals.videos} videos
+    </div>
+  </div>
+);
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ onClose, onOpenThread }) => {
+  const [entries, setEntries] = useState(listUsage);
+  const [limits, setLimits] = useState<UsageLimits>(getUsageLimits);
+  const [budgetText, setBudgetText] = useState(() => limits.dailyBudget?.toString() ?? '');
+  const [threads, setThreads] = useState<Record<string, Thread | undefined>>({});
+
+  useEffect(() => subscribeUsage(() => setEntries(listUsage())), []);
+
+  const byThread = groupUsage(entries.filter(e => e.threadId), e => e.threadId!);
+
+  // Titles for the thread table; deleted threads stay in the ledger without one
+  useEffect(() => {
+    const missing = byThread.map(g => g.key).filter(id => !(id in threads));
+    if (missing.length === 0) return;
+    Promise.all(missing.map(id => getThread(id).catch(() => undefined)))
+      .then(found => setThreads(prev => ({ ...prev, ...Object.fromEntries(missing.map((id, i) => [id, found[i]])) })));
+  }, [entries]);
+
+  const updateLimits = (changes: Partial<UsageLimits>) => {
+    const next = { ...limits, ...changes };
+    setLimits(next);
+    saveUsageLimits(next);
+  };
+
+  const commitBudget = () => {
+    const value = parseFloat(budgetText);
+    updateLimits({ dailyBudget: Number.isFinite(value) && value >= 0 ? value : null });
+  };
+
+  const now = Date.now();
+  const today = dayKey(now);
+  const days = Array.from({ length: DAYS_SHOWN }, (_, i) => dayKey(now - i * DAY_MS));
+  const byDay = new Map(groupUsage(entries, e => dayKey(e.at)).map(g => [g.key, g.totals]));
+  const empty = totalUsage([]);
+
+  return (
+    <div className="absolute inset-0 z-30 bg-gray-900 flex flex-col">
+      <div className="h-16 border-b border-gray-800 flex items-center px-6 justify-between shrink-0">
+        <h2 className="text-lg font-semibold">📊 Usage</h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-white text-xl">✕</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-8 max-w-4xl w-full mx-auto">
+        <p className="text-xs text-gray-500">
+          Costs are estimates from list prices and may differ from your bill. Only this browser's requests are counted.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <Summary label="Today" totals={byDay.get(today) || empty} />
+          <Summary label="Last 7 days" totals={totalUsage(entries.filter(e => e.at >= now - 7 * DAY_MS))} />
+          <Summary label="Last 90 days" totals={totalUsage(entries)} />
+        </div>
+
+        {/* Budget */}
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold text-gray-300">Budget</h3>
+          <div className="flex flex-wrap items-center gap-3 text-sm text-gray-400">
+            <label className="flex items-center gap-2">
+              Daily budget $
+              <input
+                value={budgetText}
+                onChange={e => setBudgetText(e.target.value)}
+                onBlur={commitBudget}
+                onKeyDown={e => e.key === 'Enter' && commitBudget()}
+                placeholder="none"
+                inputMode="decimal"
+                className={`${inputClass} w-24`}
+              />
+            </label>
+            <select value={limits.onExceed} onChange={e => updateLimits({ onExceed: e.target.value as UsageLimits['onExceed'] })} className={inputClass}>
+              <option value="warn">Ask before going over</option>
+              <option value="block">Refuse requests over it</option>
+            </select>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={limits.confirmExpensive} onChange={e => updateLimits({ confirmExpensive: e.target.checked })} className="accent-yellow-500" />
+              Confirm every Pro, Veo and 4K request
+            </label>
+          </div>
+        </section>
+
+        {/* Per day */}
+        <section>
+          <h3 className="text-sm font-semibold text-gray-300 mb-2">Per day</h3>
+          <table className="w-full text-sm">
+            <thead className="text-xs text-gray-500 text-left">
+              <tr><th className="py-1">Day</th><th>Requests</th><th>Tokens</th><th>Images</th><th>Videos</th><th className="text-right">Cost</th></tr>
+            </thead>
+            <tbody className="text-gray-300">
+              {days.map(day => {
+                const t = byDay.get(day) || empty;
+                return (
+                  <tr key={day} className={`border-t border-gray-800 ${t.requests === 0 ? 'text-gray-600' : ''}`}>
+                    <td className="py-1">{day === today ? 'Today' : day}</td>
+                    <td>{t.requests}</td>
+                    <td>{formatTokens(t.promptTokens + t.outputTokens + t.thinkingTokens)}</td>
+                    <td>{t.images}</td>
+                    <td>{t.videos}{t.videoSeconds > 0 && <span className="text-gray-500"> ({t.videoSeconds}s)</span>}</td>
+                    <td className="text-right">{formatCost(t.cost)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </section>
+
+        {/* Per thread */}
+        <section>
+          <h3 className="text-sm font-semibold text-gray-300 mb-2">Per conversation</h3>
+          {byThread.length === 0 ? (
+            <div className="text-sm text-gray-500">Nothing recorded yet.</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-xs text-gray-500 text-left">
+                <tr><th className="py-1">Conversation</th><th>Requests</th><th>Prompt</th><th>Output</th><th>Thinking</th><th className="text-right">Cost</th></tr>
+              </thead>
+              <tbody className="text-gray-300">
+                {byThread.map(({ key, totals }) => {
+                  const thread = threads[key];
+                  return (
+                    <tr key={key} className="border-t border-gray-800">
+                      <td className="py-1 max-w-[14rem] truncate">
+                        {thread ? (
+                          <button onClick={() => onOpenThread(thread.mode, thread.id)} className="hover:text-yellow-400 truncate">{thread.title}</button>
+                        ) : <span className="text-gray-500">{key in threads ? 'Deleted conversation' : '…'}</span>}
+                      </td>
+                      <td>{totals.requests}</td>
+                      <td>{formatTokens(totals.promptTokens)}</td>
+                      <td>{formatTokens(totals.outputTokens)}</td>
+                      <td>{formatTokens(totals.thinkingTokens)}</td>
+                      <td className="text-right">{formatCost(totals.cost)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </section>
+
+        <button
+          onClick={async () => { if (await confirmToast('Clear all recorded usage?', 'Clear')) clearUsage(); }}
+          className="text-xs text-gray-500 hover:text-red-400"
+        >
+          Clear usage history
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,51 @@
+import React, { useEffect, useState } from 'react';
+import { VideoJob } from '../types';
+import { MAX_WAIT_MS } from '../services/videoJobs';
+
+interface VideoJobCardProps {
+  job: VideoJob;
+  onCancel: () => void;
+}
+
+const STATUS_LABELS: Partial<Record<VideoJob['status'], string>> = {
+  starting: 'Submitting to Veo…',
+  running: 'Rendering…',
+  downloading: 'Downloading…',
+};
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const VideoJobCard: React.FC<VideoJobCardProps> = ({ job, onCancel }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const elapsed = now - job.createdAt;
+
+  return (
+    <div className="mt-3 w-full max-w-md rounded-lg border border-gray-700 bg-black/20 p-3 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2 text-gray-300">
+          <span className="animate-spin">⏳</span>
+          {STATUS_LABELS[job.status] || job.status}
+        </span>
+        <span className="text-gray-500 tabular-nums">{formatElapsed(elapsed)}</span>
+      </div>
+      <div className="mt-2 h-1 rounded bg-gray-800 overflow-hidden">
+        <div className="h-full bg-yellow-500 transition-all" style={{ width: `${Math.min(100, (elapsed / MAX_WAIT_MS) * 100)}%` }} />
+      </div>
+      <div className="mt-2 flex items-center justify-between text-gray-500">
+        <span>{job.config.aspectRatio} · {job.config.resolution} · {job.config.durationSeconds}s · gives up after {MAX_WAIT_MS / 60000} min</span>
+        <button onClick={onCancel} className="text-red-400 hover:underline" title="Stop waiting for this video">Cancel</button>
+      </div>
+    </div>
+  );
+};
+
+export default VideoJobCard;
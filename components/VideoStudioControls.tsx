@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { VideoConfig } from '../types';
+import { MAX_VIDEO_COUNT, VIDEO_DURATIONS } from '../services/videoOptions';
+import { videoModelFor } from '../services/models';
+
+interface VideoStudioControlsProps {
+  config: VideoConfig;
+  onChange: (config: VideoConfig) => void;
+  problems: string[];
+}
+
+const selectClass = "bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs";
+
+const VideoStudioControls: React.FC<VideoStudioControlsProps> = ({ config, onChange, problems }) => {
+  const [showAdvanced, setShowAdvanced] = useState(false);
+
+  const update = (changes: Partial<VideoConfig>) => onChange({ ...config, ...changes });
+
+  return (
+    <>
+      {problems.length > 0 && (
+        <span className="text-xs text-red-400 cursor-help" title={problems.join('\n')}>⚠️</span>
+      )}
+      <select className={selectClass} value={config.model} onChange={e => update({ model: e.target.value as VideoConfig['model'] })}>
+        <option value="fast">{videoModelFor('fast').label}</option>
+        <option value="quality">{videoModelFor('quality').label}</option>
+      </select>
+      <select className={selectClass} value={config.aspectRatio} onChange={e => update({ aspectRatio: e.target.value as VideoConfig['aspectRatio'] })}>
+        <option value="16:9">16:9 Landscape</option>
+        <option value="9:16">9:16 Portrait</option>
+      </select>
+      <select className={selectClass} value={config.resolution} onChange={e => update({ resolution: e.target.value as VideoConfig['resolution'] })}>
+        <option value="720p">720p</option>
+        <option value="1080p">1080p</option>
+      </select>
+      <select className={`${selectClass} hidden md:block`} value={config.durationSeconds} onChange={e => update({ durationSeconds: parseInt(e.target.value, 10) as VideoConfig['durationSeconds'] })}>
+        {VIDEO_DURATIONS.map(d => <option key={d} value={d}>{d}s</option>)}
+      </select>
+      <button onClick={() => setShowAdvanced(!showAdvanced)} className={`text-xs ${showAdvanced ? 'text-yellow-400' : 'text-gray-400'} hover:text-yellow-300`}>⚙️</button>
+
+      {showAdvanced && (
+        <div className="absolute top-16 right-4 z-20 w-80 bg-gray-900 border border-gray-700 rounded-lg shadow-xl p-4 space-y-3 text-xs">
+          <label className="block">
+            <span className="text-gray-400">Videos per prompt</span>
+            <select className={`${selectClass} mt-1 w-full`} value={config.count} onChange={e => update({ count: parseInt(e.target.value, 10) })}>
+              {Array.from({ length: MAX_VIDEO_COUNT }, (_, i) => i + 1).map(n => <option key={n} value={n}>×{n}</option>)}
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-gray-400">Avoid (negative prompt)</span>
+            <input
+              value={config.negativePrompt || ''}
+              onChange={e => update({ negativePrompt: e.target.value || undefined })}
+              placeholder="e.g. shaky camera, text overlays"
+              className="mt-1 w-full bg-gray-800 border border-gray-700 rounded px-2 py-1"
+            />
+          </label>
+          <p className="text-gray-500">
+            Attach one image to use it as the start frame, or two for start and end frames.
+          </p>
+          {problems.length > 0 && (
+            <ul className="text-red-400 space-y-1">
+              {problems.map(p => <li key={p}>{p}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default VideoStudioControls;
@@ -0,0 +1,276 @@
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { fileURLToPath } from 'node:url';
+import { WebSocket, WebSocketServer } from 'ws';
+
+/**
+ * GEMINI PROXY
+ * Holds the API key so it never ships to the browser. The app's SDK client points its
+ * base URL at /api/gemini; requests are checked against an allowlist, rate limited per
+ * user, logged, and forwarded with the real key. Live calls are relayed over WebSocket.
+ *
+ * The browser still has to give the SDK an "API key": it sends a random per-browser id
+ * instead, which labels requests in the log and is never forwarded upstream. Rate limits
+ * apply per id; since the id is whatever the browser says it is, each client address also
+ * gets a larger cap shared by every id behind it (enough for a household or office NAT).
+ */
+const PORT = Number(process.env.PORT || 3001);
+const API_KEY = process.env.GEMINI_API_KEY;
+const UPSTREAM = 'https://generativelanguage.googleapis.com';
+const UPSTREAM_WS = 'wss://generativelanguage.googleapis.com';
+const PREFIX = '/api/gemini';
+const DIST_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../dist');
+// Set when running behind a reverse proxy that appends the client address to X-Forwarded-For
+const TRUST_PROXY = ['1', 'true'].includes(process.env.TRUST_PROXY || '');
+
+if (!API_KEY) {
+  console.error('GEMINI_API_KEY is not set; add it to .env.local or the environment.');
+  process.exit(1);
+}
+
+// Requests allowed per user per minute, by kind
+const RATE_LIMITS = {
+  generate: Number(process.env.RATE_LIMIT_PER_MINUTE || 60), // chat, images, TTS, transcription
+  video: Number(process.env.VIDEO_RATE_LIMIT_PER_MINUTE || 6), // each Veo render is expensive
+  poll: 120, // Veo status checks and file polling happen on timers
+  upload: 30,
+  live: 10, // new Live connections
+};
+// An address may send this many users' worth, so rotating ids doesn't get around the limits
+const ADDRESS_SHARE = Number(process.env.RATE_LIMIT_ADDRESS_SHARE || 10);
+
+// Only what the app uses; everything else is refused rather than relayed
+const ROUTES = [
+  { kind: 'generate', method: 'POST', pattern: /^\/v1beta\/models\/[\w.-]+:(generateContent|streamGenerateContent)$/ },
+  { kind: 'video', method: 'POST', pattern: /^\/v1beta\/models\/[\w.-]+:predictLongRunning$/ },
+  { kind: 'poll', method: 'GET', pattern: /^\/v1beta\/models\/[\w.-]+\/operations\/[\w.-]+$/ },
+  { kind: 'poll', method: 'GET', pattern: /^\/v1beta\/files\/[\w.-]+$/ },
+  { kind: 'poll', method: 'GET', pattern: /^\/v1beta\/files\/[\w.-]+:download$/ },
+  { kind: 'upload', method: 'POST', pattern: /^\/upload\/v1beta\/files$/ },
+];
+const LIVE_PATH = '/ws/google.ai.generativelanguage.v1beta.GenerativeService.BidiGenerateContent';
+
+// Request headers worth passing on; everything else (cookies, the fake key, ...) is dropped
+const FORWARD_HEADERS = ['content-type', 'x-goog-api-client', 'x-goog-upload-protocol', 'x-goog-upload-command',
+  'x-goog-upload-offset', 'x-goog-upload-header-content-length', 'x-goog-upload-header-content-type'];
+const HOP_BY_HOP = new Set(['connection', 'keep-alive', 'transfer-encoding', 'content-encoding', 'content-length']);
+
+/**
+ * RATE LIMITING
+ * Fixed one-minute windows per user and kind, plus one per client address and kind.
+ * Good enough for a single process.
+ */
+const windows = new Map();
+
+const windowFor = (key, now) => {
+  let window = windows.get(key);
+  if (!window || now - window.start >= 60_000) {
+    window = { start: now, count: 0 };
+    windows.set(key, window);
+  }
+  return window;
+};
+
+// Counts the request against both the user's and the address's window, or neither if
+// either is full; returns the seconds until it may be sent, or 0 if it may go now
+const takeToken = ({ user, address }, kind) => {
+  const now = Date.now();
+  const checks = [
+    [windowFor(`user:${user}:${kind}`, now), RATE_LIMITS[kind]],
+    [windowFor(`addr:${address}:${kind}`, now), RATE_LIMITS[kind] * ADDRESS_SHARE],
+  ];
+  const full = checks.filter(([window, limit]) => window.count >= limit);
+  if (full.length > 0) return Math.max(...full.map(([window]) => Math.ceil((window.start + 60_000 - now) / 1000)));
+  checks.forEach(([window]) => window.count++);
+  return 0;
+};
+
+setInterval(() => {
+  const now = Date.now();
+  for (const [key, window] of windows) if (now - window.start >= 60_000) windows.delete(key);
+}, 60_000).unref();
+
+/**
+ * LOGGING
+ * One JSON line per request or Live session.
+ */
+const log = (entry) => console.log(JSON.stringify({ time: new Date().toISOString(), ...entry }));
+
+// Where the request came from. X-Forwarded-For is only believed behind our own proxy, and then
+// only its last entry: that is the one the proxy added, anything before it the client can forge.
+const clientAddress = (req) => {
+  const forwarded = TRUST_PROXY && req.headers['x-forwarded-for'];
+  if (typeof forwarded === 'string' && forwarded.trim()) return forwarded.split(',').pop().trim();
+  return req.socket.remoteAddress || 'unknown';
+};
+
+// The per-browser id from the SDK's key slot, for the log and the limits; falls back to the address
+const identify = (req, url) => {
+  const address = clientAddress(req);
+  const id = req.headers['x-goog-api-key'] || url.searchParams.get('key');
+  return { address, user: typeof id === 'string' && /^[\w-]{8,64}$/.test(id) ? id : `ip:${address}` };
+};
+
+const sendError = (res, status, message, headers = {}) => {
+  res.writeHead(status, { 'content-type': 'application/json', ...headers });
+  res.end(JSON.stringify({ error: { code: status, message, status: status === 429 ? 'RESOURCE_EXHAUSTED' : 'INVALID_ARGUMENT' } }));
+};
+
+const upstreamUrl = (url) => {
+  const target = new URL(UPSTREAM + url.pathname.slice(PREFIX.length));
+  url.searchParams.forEach((value, name) => { if (name !== 'key') target.searchParams.append(name, value); });
+  return target;
+};
+
+/**
+ * HTTP
+ */
+const proxyRequest = async (req, res, url) => {
+  const started = Date.now();
+  const apiPath = url.pathname.slice(PREFIX.length);
+  const client = identify(req, url);
+  const { user, address } = client;
+  const route = ROUTES.find(r => r.method === req.method && r.pattern.test(apiPath));
+  const done = (status, extra = {}) => log({ user, address, method: req.method, path: apiPath, status, ms: Date.now() - started, ...extra });
+
+  if (!route) {
+    sendError(res, 404, `Not available through the proxy: ${req.method} ${apiPath}`);
+    return done(404);
+  }
+  const retryAfter = takeToken(client, route.kind);
+  if (retryAfter) {
+    sendError(res, 429, `Rate limit reached; try again in ${retryAfter}s.`, { 'retry-after': String(retryAfter) });
+    return done(429, { limited: route.kind });
+  }
+
+  const headers = { 'x-goog-api-key': API_KEY };
+  for (const name of FORWARD_HEADERS) if (req.headers[name]) headers[name] = req.headers[name];
+
+  // A browser that goes away (Stop, a client-side timeout, a closed tab) cancels the upstream call too
+  const abort = new AbortController();
+  res.on('close', () => { if (!res.writableFinished) abort.abort(); });
+
+  try {
+    const upstream = await fetch(upstreamUrl(url), {
+      method: req.method,
+      headers,
+      body: req.method === 'GET' ? undefined : Readable.toWeb(req),
+      duplex: 'half',
+      signal: abort.signal,
+    });
+
+    // Resumable uploads continue at a URL Google hands out; keep that on the proxy too
+    const publicBase = `${req.headers['x-forwarded-proto'] || 'http'}://${req.headers['x-forwarded-host'] || req.headers.host}${PREFIX}`;
+    const responseHeaders = {};
+    upstream.headers.forEach((value, name) => {
+      if (HOP_BY_HOP.has(name)) return;
+      responseHeaders[name] = name === 'x-goog-upload-url' ? value.replace(UPSTREAM, publicBase) : value;
+    });
+    res.writeHead(upstream.status, responseHeaders);
+    if (upstream.body) {
+      await new Promise((resolve, reject) => {
+        Readable.fromWeb(upstream.body).on('error', reject).pipe(res).on('finish', resolve).on('error', reject);
+      });
+    } else {
+      res.end();
+    }
+    done(upstream.status);
+  } catch (e) {
+    if (abort.signal.aborted) return done(499, { cancelled: true });
+    console.error('Upstream request failed', e);
+    if (!res.headersSent) sendError(res, 502, 'The Gemini API could not be reached.');
+    else res.destroy();
+    done(502);
+  }
+};
+
+/**
+ * STATIC FILES
+ * Serves the production build (npm run build) so one process can run the whole app.
+ */
+const MIME_TYPES = { '.html': 'text/html', '.js': 'text/javascript', '.css': 'text/css', '.svg': 'image/svg+xml', '.png': 'image/png', '.json': 'application/json', '.ico': 'image/x-icon' };
+
+const serveStatic = (req, res, url) => {
+  let requested;
+  try {
+    requested = path.normalize(path.join(DIST_DIR, decodeURIComponent(url.pathname)));
+  } catch {
+    return sendError(res, 400, 'Malformed path.');
+  }
+  const inside = requested.startsWith(DIST_DIR + path.sep);
+  const file = inside && fs.existsSync(requested) && fs.statSync(requested).isFile() ? requested : path.join(DIST_DIR, 'index.html');
+  if (!fs.existsSync(file)) return sendError(res, 404, 'Not found. Run "npm run build" to serve the app from here.');
+  res.writeHead(200, { 'content-type': MIME_TYPES[path.extname(file)] || 'application/octet-stream' });
+  fs.createReadStream(file).pipe(res);
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  if (url.pathname.startsWith(`${PREFIX}/`)) proxyRequest(req, res, url);
+  else if (req.method === 'GET') serveStatic(req, res, url);
+  else sendError(res, 405, 'Method not allowed.');
+});
+
+/**
+ * LIVE RELAY
+ * Each browser socket gets its own upstream socket; frames pass through untouched.
+ */
+const wss = new WebSocketServer({ noServer: true });
+
+// Cuts a string to at most `max` UTF-8 bytes without splitting a character
+const truncateBytes = (text, max) => {
+  while (Buffer.byteLength(text) > max) text = [...text].slice(0, -1).join('');
+  return text;
+};
+
+// Close codes that may not be sent explicitly are replaced with a generic one
+const closeCode = (code) => (code >= 1000 && code <= 4999 && ![1004, 1005, 1006, 1015].includes(code) ? code : 1011);
+
+server.on('upgrade', (req, socket, head) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const client = identify(req, url);
+  const { user, address } = client;
+  const refuse = (status, message) => {
+    socket.end(`HTTP/1.1 ${status} ${message}\r\n\r\n`);
+    log({ user, address, method: 'WS', path: url.pathname.slice(PREFIX.length), status });
+  };
+  if (url.pathname !== PREFIX + LIVE_PATH) return refuse(404, 'Not Found');
+  if (takeToken(client, 'live')) return refuse(429, 'Too Many Requests');
+
+  wss.handleUpgrade(req, socket, head, (client) => {
+    const started = Date.now();
+    const upstream = new WebSocket(`${UPSTREAM_WS}${LIVE_PATH}?key=${encodeURIComponent(API_KEY)}`);
+    const pending = []; // client frames sent before the upstream socket opened
+    let frames = 0;
+
+    upstream.on('open', () => pending.splice(0).forEach(([data, isBinary]) => upstream.send(data, { binary: isBinary })));
+    client.on('message', (data, isBinary) => {
+      frames++;
+      if (upstream.readyState === WebSocket.OPEN) upstream.send(data, { binary: isBinary });
+      else pending.push([data, isBinary]);
+    });
+    upstream.on('message', (data, isBinary) => client.readyState === WebSocket.OPEN && client.send(data, { binary: isBinary }));
+
+    let logged = false;
+    const finish = (code, reason) => {
+      reason = truncateBytes(reason, 123); // ws.close throws on longer reasons
+      if (!logged) {
+        logged = true;
+        log({ user, address, method: 'WS', path: LIVE_PATH, status: code, ms: Date.now() - started, frames });
+      }
+      if (client.readyState === WebSocket.OPEN) client.close(closeCode(code), reason);
+      if (upstream.readyState === WebSocket.OPEN || upstream.readyState === WebSocket.CONNECTING) upstream.close(closeCode(code), reason);
+    };
+    client.on('close', (code, reason) => finish(code, reason.toString()));
+    upstream.on('close', (code, reason) => finish(code, reason.toString()));
+    upstream.on('error', (e) => {
+      console.error('Live upstream error', e);
+      finish(1011, 'Upstream connection failed');
+    });
+    client.on('error', (e) => console.error('Live client error', e));
+  });
+});
+
+server.listen(PORT, () => console.log(`Gemini proxy listening on http://localhost:${PORT}`));
@@ -0,0 +1,99 @@
+import { Content, GenerateContentResponse, GenerateContentResponseUsageMetadata, GenerateVideosOperation, LiveConnectParameters, LiveSendRealtimeInputParameters, LiveSendToolResponseParameters } from "@google/genai";
+import { Attachment, ChatConfig, ImageConfig, PodcastLine, PodcastSpeaker, VideoConfig } from "../types";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+
+/**
+ * AI PROVIDERS
+ * Everything the app asks of a model goes through one of these. `gemini` calls the real
+ * API (through our proxy); `mock` answers offline with canned, deterministic results so
+ * the UI can be exercised without network access or a key. Responses keep the SDK's
+ * shapes, so callers don't care which one is active.
+ *
+ * Every request takes an optional AbortSignal; aborting it cancels the request itself,
+ * not just the wait for it.
+ *
+ * Pick one with AI_PROVIDER=gemini|mock when starting Vite (see vite.config.ts).
+ */
+export type ProviderId = 'gemini' | 'mock';
+
+export type GeoLocation = { latitude: number; longitude: number };
+
+export interface ChatRequest {
+  prompt: string;
+  history: Content[];
+  files: Attachment[];
+  config: ChatConfig;
+  geoLocation?: GeoLocation;
+  toolTurns?: Content[]; // function calls and results from earlier rounds of this turn
+}
+
+export type ImageInput = { data: string; mimeType: string };
+
+export interface UploadedFile {
+  fileUri: string;
+  expiresAt?: number;
+}
+
+export interface PodcastSource {
+  topic?: string;
+  conversation?: string; // a chat thread flattened to text
+  document?: Attachment;
+}
+
+export interface PodcastDraft {
+  title: string;
+  lines: PodcastLine[];
+}
+
+// A result that isn't a whole response, with the tokens it took (absent when nothing was billed)
+export interface Metered<T> {
+  value: T;
+  usageMetadata?: GenerateContentResponseUsageMetadata;
+}
+
+// The part of a Live session the app uses
+export interface LiveSession {
+  sendRealtimeInput: (params: LiveSendRealtimeInputParameters) => void;
+  sendToolResponse: (params: LiveSendToolResponseParameters) => void;
+  close: () => void;
+}
+
+export interface AIProvider {
+  id: ProviderId;
+  imageModel: string; // recorded with generated images
+  videoModel: (model: VideoConfig['model']) => string; // for pricing renders
+
+  // Chat
+  streamChat: (request: ChatRequest, abortSignal?: AbortSignal) => Promise<AsyncGenerator<GenerateContentResponse>>;
+  summarize: (history: Content[], previousSummary?: string, abortSignal?: AbortSignal) => Promise<Metered<string>>;
+  uploadFile: (file: Blob, mimeType: string, abortSignal?: AbortSignal) => Promise<UploadedFile>;
+
+  // Images
+  generateImage: (prompt: string, config: ImageConfig, seed?: number, abortSignal?: AbortSignal) => Promise<GenerateContentResponse>;
+  editImage: (prompt: string, source: ImageInput, references: ImageInput[], abortSignal?: AbortSignal) => Promise<GenerateContentResponse>;
+
+  // Video: starting returns an operation name to poll
+  startVideo: (prompt: string, config: VideoConfig, frames: { first?: ImageInput, last?: ImageInput }, abortSignal?: AbortSignal) => Promise<string>;
+  getVideoOperation: (operationName: string) => Promise<GenerateVideosOperation>;
+  downloadVideo: (videoUri: string, abortSignal?: AbortSignal) => Promise<Blob>;
+
+  // Speech: audio comes back as base64 24 kHz 16-bit PCM
+  generateSpeech: (text: string, voice: string, abortSignal?: AbortSignal) => Promise<Metered<string | undefined>>;
+  generateDialogueSpeech: (dialogue: string, speakers: PodcastSpeaker[], abortSignal?: AbortSignal) => Promise<Metered<string | undefined>>;
+  writePodcastScript: (source: PodcastSource, speakerNames: [string, string], targetWords: number, abortSignal?: AbortSignal) => Promise<Metered<PodcastDraft>>;
+  transcribeAudio: (audioBase64: string, mimeType: string, abortSignal?: AbortSignal) => Promise<Metered<string | undefined>>;
+
+  // Live
+  connectLive: (params: LiveConnectParameters) => Promise<LiveSession>;
+}
+
+const PROVIDERS: Record<ProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+export const getProvider = (): AIProvider => {
+  const id = process.env.AI_PROVIDER as ProviderId | undefined;
+  return (id && PROVIDERS[id]) || geminiProvider;
+};
@@ -0,0 +1,131 @@
+import { Part } from '@google/genai';
+import { Attachment } from '../types';
+
+/**
+ * ATTACHMENTS
+ * Files the user adds to the composer. Small files are sent inline as base64; anything
+ * above the inline limit goes through the Files API instead (see `uploadFile`).
+ */
+export const MAX_ATTACHMENTS = 10;
+export const MAX_FILE_BYTES = 200 * 1024 * 1024; // 200 MB
+export const INLINE_LIMIT_BYTES = 14 * 1024 * 1024; // requests are capped at 20 MB in total, after base64
+
+// A file picked in the composer but not yet sent
+export interface PendingAttachment {
+  id: string;
+  file: File;
+  name: string;
+  mimeType: string;
+  size: number;
+  preview?: string; // object URL for images
+}
+
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'xml', 'yaml', 'yml', 'toml', 'ini', 'log', 'html', 'css',
+  'js', 'jsx', 'ts', 'tsx', 'mjs', 'cjs', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'c', 'h', 'cpp', 'hpp', 'cs',
+  'php', 'swift', 'sh', 'bash', 'sql', 'r', 'lua', 'vue', 'svelte',
+]);
+
+const SUPPORTED_PREFIXES = ['image/', 'audio/', 'video/', 'text/'];
+
+export const ACCEPT_ATTRIBUTE = `image/*,audio/*,video/*,application/pdf,${[...TEXT_EXTENSIONS].map(e => `.${e}`).join(',')}`;
+
+/**
+ * Browsers report odd or empty MIME types for source files (".ts" is "video/mp2t"),
+ * so text-like extensions are normalized to text/plain, which Gemini accepts.
+ */
+export const resolveMimeType = (file: File) => {
+  const ext = file.name.split('.').pop()?.toLowerCase() || '';
+  if (TEXT_EXTENSIONS.has(ext)) {
+    if (ext === 'csv') return 'text/csv';
+    if (ext === 'html') return 'text/html';
+    if (ext === 'md' || ext === 'markdown') return 'text/markdown';
+    return 'text/plain';
+  }
+  return file.type || 'application/octet-stream';
+};
+
+export const isSupportedType = (mimeType: string) =>
+  mimeType === 'application/pdf' || SUPPORTED_PREFIXES.some(p => mimeType.startsWith(p));
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const attachmentIcon = (mimeType: string) => {
+  if (mimeType.startsWith('image/')) return '🖼️';
+  if (mimeType.startsWith('audio/')) return '🎵';
+  if (mimeType.startsWith('video/')) return '🎞️';
+  if (mimeType === 'application/pdf') return '📕';
+  return '📄';
+};
+
+/**
+ * Validate new files against the current selection. Returns the accepted files
+ * and a human readable reason for each rejected one.
+ */
+export const validateFiles = (files: File[], existingCount: number) => {
+  const accepted: PendingAttachment[] = [];
+  const errors: string[] = [];
+
+  for (const file of files) {
+    const mimeType = resolveMimeType(file);
+    if (existingCount + accepted.length >= MAX_ATTACHMENTS) {
+      errors.push(`${file.name}: at most ${MAX_ATTACHMENTS} files per message`);
+    } else if (!isSupportedType(mimeType)) {
+      errors.push(`${file.name}: unsupported file type (${mimeType})`);
+    } else if (file.size > MAX_FILE_BYTES) {
+      errors.push(`${file.name}: larger than ${formatBytes(MAX_FILE_BYTES)}`);
+    } else {
+      accepted.push({
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        file,
+        name: file.name || 'pasted file',
+        mimeType,
+        size: file.size,
+        preview: mimeType.startsWith('image/') ? URL.createObjectURL(file) : undefined,
+      });
+    }
+  }
+  return { accepted, errors };
+};
+
+export const readAsBase64 = (file: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Turn pending files into sendable attachments. Files are sent inline while they fit
+ * in the shared inline budget; the rest are uploaded.
+ */
+export const prepareAttachments = async (
+  pending: PendingAttachment[],
+  upload: (file: Blob, mimeType: string) => Promise<{ fileUri: string; expiresAt?: number }>
+): Promise<Attachment[]> => {
+  let inlineBytes = 0;
+  const plan = pending.map(p => {
+    const inline = inlineBytes + p.size <= INLINE_LIMIT_BYTES;
+    if (inline) inlineBytes += p.size;
+    return { p, inline };
+  });
+
+  return Promise.all(plan.map(async ({ p, inline }) => {
+    const base = { name: p.name, mimeType: p.mimeType, size: p.size };
+    if (inline) {
+      return { ...base, data: await readAsBase64(p.file) };
+    }
+    return { ...base, ...(await upload(p.file, p.mimeType)) };
+  }));
+};
+
+export const attachmentToPart = (a: Attachment): Part => {
+  if (a.data) return { inlineData: { data: a.data, mimeType: a.mimeType } };
+  if (a.fileUri && (!a.expiresAt || a.expiresAt > Date.now())) return { fileData: { fileUri: a.fileUri, mimeType: a.mimeType } };
+  return { text: `[Attachment "${a.name}" is no longer available.]` };
+};
@@ -0,0 +1,122 @@
+/**
+ * MICROPHONE CAPTURE (AudioWorklet)
+ * The Live API wants 16 kHz 16-bit mono PCM. Browsers often ignore a requested
+ * AudioContext sample rate, so capture runs at the device rate and the worklet
+ * resamples on the audio thread, clamps to Int16 and posts small chunks together
+ * with their RMS level for the meter.
+ */
+export const CAPTURE_SAMPLE_RATE = 16000;
+const DEFAULT_CHUNK_MS = 40;
+
+// Loaded from a Blob URL so it needs no separate static file
+const WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, chunkSize } = options.processorOptions;
+    this.ratio = sampleRate / targetRate;
+    this.chunk = new Int16Array(chunkSize);
+    this.filled = 0;
+    this.energy = 0;
+    // Downsampling state: running window average
+    this.sum = 0;
+    this.count = 0;
+    this.pos = 0;
+    // Upsampling state: linear interpolation from the previous sample
+    this.prev = 0;
+    this.t = 0;
+  }
+
+  push(sample) {
+    const s = Math.max(-1, Math.min(1, sample));
+    this.chunk[this.filled++] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    this.energy += s * s;
+    if (this.filled === this.chunk.length) {
+      const level = Math.sqrt(this.energy / this.filled);
+      this.port.postMessage({ pcm: this.chunk.buffer, level }, [this.chunk.buffer]);
+      this.chunk = new Int16Array(this.chunk.length);
+      this.filled = 0;
+      this.energy = 0;
+    }
+  }
+
+  process(inputs) {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) return true;
+    const length = channels[0].length;
+
+    for (let i = 0; i < length; i++) {
+      let sample = 0;
+      for (let c = 0; c < channels.length; c++) sample += channels[c][i];
+      sample /= channels.length;
+
+      if (this.ratio >= 1) {
+        // Averaging each window doubles as a simple anti-aliasing low-pass
+        this.sum += sample;
+        this.count++;
+        this.pos += 1;
+        if (this.pos >= this.ratio) {
+          this.push(this.sum / this.count);
+          this.pos -= this.ratio;
+          this.sum = 0;
+          this.count = 0;
+        }
+      } else {
+        while (this.t < 1) {
+          this.push(this.prev + (sample - this.prev) * this.t);
+          this.t += this.ratio;
+        }
+        this.t -= 1;
+        this.prev = sample;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+export interface MicCapture {
+  deviceSampleRate: number;
+  stop: () => void;
+}
+
+/**
+ * Start streaming a media stream's audio as 16 kHz PCM chunks (40 ms by default).
+ * `level` is the chunk's RMS in [0, 1].
+ */
+export const startMicCapture = async (
+  stream: MediaStream,
+  onChunk: (pcm: Int16Array, level: number) => void,
+  chunkMs = DEFAULT_CHUNK_MS
+): Promise<MicCapture> => {
+  const context = new (window.AudioContext || window.webkitAudioContext)();
+  const url = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  try {
+    await context.audioWorklet.addModule(url);
+  } catch (e) {
+    context.close();
+    throw e;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+
+  const source = context.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(context, 'pcm-capture', {
+    processorOptions: { targetRate: CAPTURE_SAMPLE_RATE, chunkSize: Math.round(CAPTURE_SAMPLE_RATE * chunkMs / 1000) },
+  });
+  node.port.onmessage = (e) => onChunk(new Int16Array(e.data.pcm), e.data.level);
+
+  source.connect(node);
+  node.connect(context.destination); // keeps the node pulled; it only outputs silence
+
+  return {
+    deviceSampleRate: context.sampleRate,
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+      context.close();
+    },
+  };
+};
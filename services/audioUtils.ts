@@ -1,14 +1,9 @@
 import { Blob } from '@google/genai';
 
-export function createBlob(data: Float32Array): Blob {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
-  }
+export function createPcmBlob(pcm: Int16Array, sampleRate = 16000): Blob {
   return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    data: encode(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
 
@@ -48,4 +43,27 @@ export async function decodeAudioData(
     }
   }
   return buffer;
-}
\ No newline at end of file
+}
+// Wrap raw 16-bit PCM in a WAV header so it can be saved or played by any player
+export function pcmToWav(pcm: Uint8Array, sampleRate: number, numChannels = 1): Uint8Array {
+  const wav = new Uint8Array(44 + pcm.byteLength);
+  const view = new DataView(wav.buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * 2, true); // byte rate
+  view.setUint16(32, numChannels * 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, pcm.byteLength, true);
+  wav.set(pcm, 44);
+  return wav;
+}
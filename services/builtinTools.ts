@@ -0,0 +1,284 @@
+import { Type } from '@google/genai';
+import type { ToolDefinition } from './tools';
+import { showToast } from './toasts';
+
+/**
+ * BUILT-IN TOOLS
+ * Calculator, unit conversion, timers and notes. Everything runs locally; notes are
+ * kept in localStorage and timers only last as long as the page.
+ */
+
+/**
+ * CALCULATOR
+ * A small recursive-descent parser instead of `eval`, since the expression comes from
+ * the model. Supports + - * / % ^, parentheses, constants and common functions.
+ */
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt, cbrt: Math.cbrt, abs: Math.abs, round: Math.round, floor: Math.floor, ceil: Math.ceil,
+  sin: Math.sin, cos: Math.cos, tan: Math.tan, asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  ln: Math.log, log: Math.log10, log2: Math.log2, exp: Math.exp, min: Math.min, max: Math.max, pow: Math.pow,
+};
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+export const evaluateExpression = (expression: string): number => {
+  const tokens = expression.match(/\d*\.?\d+(?:e[+-]?\d+)?|[a-z_]\w*|[-+*/%^(),]|\S/gi) || [];
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const take = (expected?: string) => {
+    const token = tokens[pos++];
+    if (expected && token !== expected) throw new Error(`Expected "${expected}" but found ${token ? `"${token}"` : 'end of input'}`);
+    return token;
+  };
+
+  const parseExpr = (): number => {
+    let value = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      value = take() === '+' ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  };
+
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const op = take();
+      const rhs = parseUnary();
+      value = op === '*' ? value * rhs : op === '/' ? value / rhs : value % rhs;
+    }
+    return value;
+  };
+
+  // Unary minus binds looser than ^, so -2^2 is -4
+  const parseUnary = (): number => {
+    if (peek() === '-') { take(); return -parseUnary(); }
+    if (peek() === '+') { take(); return parseUnary(); }
+    const base = parsePrimary();
+    if (peek() === '^') { take(); return Math.pow(base, parseUnary()); }
+    return base;
+  };
+
+  const parsePrimary = (): number => {
+    const token = take();
+    if (token === undefined) throw new Error('Unexpected end of expression');
+    if (token === '(') {
+      const value = parseExpr();
+      take(')');
+      return value;
+    }
+    if (/^\d*\.?\d/.test(token)) return parseFloat(token);
+
+    const name = token.toLowerCase();
+    if (FUNCTIONS[name]) {
+      take('(');
+      const args = [parseExpr()];
+      while (peek() === ',') { take(); args.push(parseExpr()); }
+      take(')');
+      return FUNCTIONS[name](...args);
+    }
+    if (name in CONSTANTS) return CONSTANTS[name];
+    throw new Error(`Unknown symbol "${token}"`);
+  };
+
+  const result = parseExpr();
+  if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos]}"`);
+  if (!Number.isFinite(result)) throw new Error('The result is not a finite number');
+  return result;
+};
+
+/**
+ * UNIT CONVERSION
+ * Linear units are stored as a factor to the category's base unit; temperature is special-cased.
+ */
+const UNIT_FACTORS: Record<string, Record<string, number>> = {
+  length: { mm: 0.001, cm: 0.01, m: 1, km: 1000, in: 0.0254, ft: 0.3048, yd: 0.9144, mi: 1609.344 },
+  mass: { mg: 1e-6, g: 0.001, kg: 1, t: 1000, oz: 0.028349523125, lb: 0.45359237 },
+  volume: { ml: 0.001, l: 1, tsp: 0.00492892159375, tbsp: 0.01478676478125, floz: 0.0295735295625, cup: 0.2365882365, gal: 3.785411784 },
+  speed: { 'm/s': 1, 'km/h': 1 / 3.6, mph: 0.44704, knot: 0.514444 },
+  time: { s: 1, min: 60, h: 3600, day: 86400, week: 604800 },
+  data: { b: 1, kb: 1e3, mb: 1e6, gb: 1e9, tb: 1e12, kib: 1024, mib: 1024 ** 2, gib: 1024 ** 3 },
+};
+
+const toCelsius: Record<string, (v: number) => number> = { c: v => v, f: v => (v - 32) * 5 / 9, k: v => v - 273.15 };
+const fromCelsius: Record<string, (v: number) => number> = { c: v => v, f: v => v * 9 / 5 + 32, k: v => v + 273.15 };
+
+export const convertUnits = (value: number, from: string, to: string) => {
+  const f = from.trim().toLowerCase();
+  const t = to.trim().toLowerCase();
+  if (toCelsius[f] && fromCelsius[t]) return fromCelsius[t](toCelsius[f](value));
+
+  const category = Object.values(UNIT_FACTORS).find(units => units[f] !== undefined && units[t] !== undefined);
+  if (!category) throw new Error(`Cannot convert from "${from}" to "${to}"`);
+  return value * category[f] / category[t];
+};
+
+/**
+ * TIMERS
+ */
+interface ActiveTimer {
+  id: number;
+  label: string;
+  endsAt: number;
+}
+const timers = new Map<number, ActiveTimer>();
+
+const announce = (label: string) => {
+  if ('Notification' in window && Notification.permission === 'granted') {
+    new Notification('⏰ Timer finished', { body: label });
+  } else {
+    showToast(`⏰ Timer finished: ${label}`, 'info', 0);
+  }
+};
+
+/**
+ * NOTES
+ */
+const NOTES_KEY = 'nano-banana.notes';
+
+interface Note {
+  id: string;
+  text: string;
+  createdAt: number;
+}
+
+const loadNotes = (): Note[] => {
+  try {
+    return JSON.parse(localStorage.getItem(NOTES_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+const storeNotes = (notes: Note[]) => localStorage.setItem(NOTES_KEY, JSON.stringify(notes));
+
+export const BUILT_IN_TOOLS: ToolDefinition[] = [
+  {
+    declaration: {
+      name: 'calculate',
+      description: 'Evaluate an arithmetic expression exactly. Supports + - * / % ^, parentheses, pi, e and functions like sqrt, sin, log, ln, round, min, max.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: { expression: { type: Type.STRING, description: 'For example "(3 + 4) * sqrt(2) ^ 2"' } },
+        required: ['expression'],
+      },
+    },
+    handler: ({ expression }) => ({ result: evaluateExpression(String(expression)) }),
+  },
+  {
+    declaration: {
+      name: 'convert_units',
+      description: `Convert a value between units. Known units: ${Object.values(UNIT_FACTORS).map(u => Object.keys(u).join(', ')).join('; ')}; temperature: c, f, k.`,
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          value: { type: Type.NUMBER },
+          from: { type: Type.STRING, description: 'Unit to convert from, e.g. "km"' },
+          to: { type: Type.STRING, description: 'Unit to convert to, e.g. "mi"' },
+        },
+        required: ['value', 'from', 'to'],
+      },
+    },
+    handler: ({ value, from, to }) => ({ result: convertUnits(Number(value), String(from), String(to)), unit: to }),
+  },
+  {
+    declaration: {
+      name: 'set_timer',
+      description: 'Start a countdown timer that alerts the user when it ends.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          seconds: { type: Type.NUMBER, description: 'Duration in seconds' },
+          label: { type: Type.STRING, description: 'What the timer is for' },
+        },
+        required: ['seconds'],
+      },
+    },
+    handler: ({ seconds, label }) => {
+      const duration = Number(seconds);
+      if (!(duration > 0)) throw new Error('seconds must be a positive number');
+      if ('Notification' in window && Notification.permission === 'default') Notification.requestPermission();
+
+      const timerLabel = label ? String(label) : `${duration} second timer`;
+      const id = window.setTimeout(() => {
+        timers.delete(id);
+        announce(timerLabel);
+      }, duration * 1000);
+      timers.set(id, { id, label: timerLabel, endsAt: Date.now() + duration * 1000 });
+      return { timerId: id, label: timerLabel, endsAt: new Date(Date.now() + duration * 1000).toISOString() };
+    },
+  },
+  {
+    declaration: {
+      name: 'list_timers',
+      description: 'List running timers with their remaining time.',
+      parameters: { type: Type.OBJECT, properties: {} },
+    },
+    handler: () => ({
+      timers: Array.from(timers.values()).map(t => ({ timerId: t.id, label: t.label, secondsLeft: Math.round((t.endsAt - Date.now()) / 1000) })),
+    }),
+  },
+  {
+    declaration: {
+      name: 'cancel_timer',
+      description: 'Cancel a running timer.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: { timerId: { type: Type.NUMBER } },
+        required: ['timerId'],
+      },
+    },
+    handler: ({ timerId }) => {
+      const timer = timers.get(Number(timerId));
+      if (!timer) throw new Error(`No running timer with id ${timerId}`);
+      clearTimeout(timer.id);
+      timers.delete(timer.id);
+      return { cancelled: timer.label };
+    },
+  },
+  {
+    declaration: {
+      name: 'add_note',
+      description: "Save a note for the user. Notes persist across sessions in this browser.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: { text: { type: Type.STRING } },
+        required: ['text'],
+      },
+    },
+    handler: ({ text }) => {
+      const note: Note = { id: Date.now().toString(36), text: String(text), createdAt: Date.now() };
+      storeNotes([...loadNotes(), note]);
+      return { saved: note };
+    },
+  },
+  {
+    declaration: {
+      name: 'list_notes',
+      description: "List the user's saved notes, optionally filtered by a search term.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: { query: { type: Type.STRING } },
+      },
+    },
+    handler: ({ query }) => {
+      const q = query ? String(query).toLowerCase() : '';
+      return { notes: loadNotes().filter(n => n.text.toLowerCase().includes(q)) };
+    },
+  },
+  {
+    declaration: {
+      name: 'delete_note',
+      description: 'Delete a saved note by id.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: { id: { type: Type.STRING } },
+        required: ['id'],
+      },
+    },
+    handler: ({ id }) => {
+      const notes = loadNotes();
+      if (!notes.some(n => n.id === id)) throw new Error(`No note with id ${id}`);
+      storeNotes(notes.filter(n => n.id !== id));
+      return { deleted: id };
+    },
+  },
+];
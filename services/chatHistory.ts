@@ -0,0 +1,187 @@
+import { Content, Part } from '@google/genai';
+import { Attachment, ImageRef, Message, ModelTier } from '../types';
+import { INLINE_LIMIT_BYTES, attachmentToPart } from './attachments';
+import { modelFor } from './models';
+
+// Rough token estimates used for history budgeting (no network round-trip to countTokens).
+const CHARS_PER_TOKEN = 4;
+const IMAGE_TOKENS = 258;
+
+// How much of the context window we are willing to spend on prior turns, per tier.
+const HISTORY_TOKEN_BUDGET: Record<ModelTier, number> = {
+  [ModelTier.FAST]: 24000,
+  [ModelTier.STANDARD]: 48000,
+  [ModelTier.PRO]: 96000,
+};
+
+export interface HistoryOptions {
+  inlineBytes?: number; // inline media allowed in the history; defaults to the whole request limit
+  chosen?: ImageRef | null; // the batch variant to send for its message (otherwise the first)
+}
+
+export interface ChatHistory {
+  contents: Content[];
+  // Oldest messages that did not fit in the budget and should be summarized instead.
+  dropped: Message[];
+}
+
+// Never more than half the tier's context window, in case an override points it at a smaller model
+export const getHistoryBudget = (tier: ModelTier) =>
+  Math.min(HISTORY_TOKEN_BUDGET[tier], Math.floor(modelFor(`chat.${tier}`).contextWindow / 2));
+
+// Images have a flat cost; text files cost roughly their length; other media is a coarse guess by size
+const estimateInlineTokens = (mimeType: string, base64: string) => {
+  const bytes = Math.floor(base64.length * 3 / 4);
+  if (mimeType.startsWith('image/')) return IMAGE_TOKENS;
+  if (mimeType.startsWith('text/')) return Math.ceil(bytes / CHARS_PER_TOKEN);
+  return Math.max(IMAGE_TOKENS, Math.ceil(bytes / 1000));
+};
+
+export const estimateTokens = (content: Content) =>
+  (content.parts || []).reduce((sum, part) => {
+    if (part.text) return sum + Math.ceil(part.text.length / CHARS_PER_TOKEN);
+    if (part.inlineData) return sum + estimateInlineTokens(part.inlineData.mimeType || '', part.inlineData.data || '');
+    if (part.fileData) return sum + IMAGE_TOKENS;
+    return sum;
+  }, 0);
+
+const base64Bytes = (base64: string) => Math.floor(base64.length * 3 / 4);
+
+const mediaLabel = (mimeType: string) =>
+  mimeType.startsWith('image/') ? 'An image' : mimeType.startsWith('audio/') ? 'An audio clip'
+    : mimeType.startsWith('video/') ? 'A video' : 'A file';
+
+// Earlier uploads are referenced through the Files API while it still has them, which costs no inline bytes
+const historyAttachmentPart = (a: Attachment): Part =>
+  a.fileUri && (!a.expiresAt || a.expiresAt > Date.now())
+    ? { fileData: { fileUri: a.fileUri, mimeType: a.mimeType } }
+    : attachmentToPart(a);
+
+/**
+ * Convert a single UI message into Gemini content, carrying its attachments,
+ * generated media and grounding sources along so the model can refer back to them.
+ * Of a batch of variants only one goes along: `variantIndex`, or the first.
+ */
+export const messageToContent = (msg: Message, variantIndex = 0): Content | null => {
+  const parts: Part[] = [];
+
+  if (msg.image) {
+    parts.push({ inlineData: { data: msg.image, mimeType: msg.imageMimeType || 'image/png' } });
+  }
+  msg.attachments?.forEach(a => parts.push(historyAttachmentPart(a)));
+  const variant = msg.variants?.[variantIndex] || msg.variants?.[0];
+  if (variant && msg.variants) {
+    parts.push({ inlineData: { data: variant.data, mimeType: variant.mimeType } });
+    if (msg.variants.length > 1) {
+      parts.push({ text: `[Variant ${msg.variants.indexOf(variant) + 1} of ${msg.variants.length} generated for this request.]` });
+    }
+  }
+  if (msg.toolCalls && msg.toolCalls.length > 0) {
+    // Replayed as text; the original function call turns aren't kept
+    const calls = msg.toolCalls.map(c => `- ${c.name}(${JSON.stringify(c.args)}) → ${c.error ? `error: ${c.error}` : JSON.stringify(c.result)}`);
+    parts.push({ text: `Tools used:\n${calls.join('\n')}` });
+  }
+  if (msg.text) {
+    parts.push({ text: msg.text });
+  }
+  if (msg.videoUri) {
+    parts.push({ text: '[A video was generated for this request.]' });
+  }
+  if (msg.grounding && msg.grounding.length > 0) {
+    const sources = msg.grounding
+      .map(chunk => chunk.web || chunk.maps)
+      .filter((src): src is { uri: string; title: string } => !!src)
+      .map(src => `- ${src.title} (${src.uri})`);
+    if (sources.length > 0) parts.push({ text: `Sources:\n${sources.join('\n')}` });
+  }
+
+  if (parts.length === 0) return null;
+  return { role: msg.role, parts };
+};
+
+/**
+ * Inline media counts against the request size limit on every turn it is resent, so
+ * once `budgetBytes` is spent, further inline parts are swapped for a short note.
+ * Returns the content and the inline bytes it still carries.
+ */
+const fitInlineData = (content: Content, budgetBytes: number) => {
+  let bytes = 0;
+  const parts = (content.parts || []).map((part): Part => {
+    if (!part.inlineData?.data) return part;
+    const size = base64Bytes(part.inlineData.data);
+    if (bytes + size > budgetBytes) {
+      return { text: `[${mediaLabel(part.inlineData.mimeType || '')} from earlier in the conversation was left out to keep the request small.]` };
+    }
+    bytes += size;
+    return part;
+  });
+  return { content: { ...content, parts }, bytes };
+};
+
+/**
+ * Apply an inline media budget to a list of contents, keeping the newest media.
+ */
+export const limitInlineData = (contents: Content[], budgetBytes = INLINE_LIMIT_BYTES) => {
+  let remaining = budgetBytes;
+  return contents.slice().reverse().map(content => {
+    const fitted = fitInlineData(content, remaining);
+    remaining -= fitted.bytes;
+    return fitted.content;
+  }).reverse();
+};
+
+/**
+ * Build the `contents` history for a chat request from the visible messages.
+ * Walks backwards from the newest message until the token budget is spent, so the
+ * most recent context always survives; everything older is returned in `dropped`.
+ * Model turns left at the front of the cut go into `dropped` too, since the history
+ * has to open with a user turn and they would otherwise be lost from both.
+ * Media past the inline byte budget is replaced by a note (see `fitInlineData`).
+ */
+export const buildChatHistory = (messages: Message[], budgetTokens: number, options: HistoryOptions = {}): ChatHistory => {
+  const usable = messages.filter(m => !m.isError);
+  const kept: { index: number; content: Content }[] = [];
+  let used = 0;
+  let inlineLeft = options.inlineBytes ?? INLINE_LIMIT_BYTES;
+
+  for (let i = usable.length - 1; i >= 0; i--) {
+    const msg = usable[i];
+    const variantIndex = options.chosen?.messageId === msg.id ? options.chosen.variantIndex : undefined;
+    const converted = messageToContent(msg, variantIndex);
+    if (!converted) continue;
+    const { content, bytes } = fitInlineData(converted, inlineLeft);
+    const cost = estimateTokens(content);
+    if (used + cost > budgetTokens && kept.length > 0) break;
+    kept.unshift({ index: i, content });
+    used += cost;
+    inlineLeft -= bytes;
+  }
+
+  while (kept.length > 0 && kept[0].content.role !== 'user') kept.shift();
+  const cutoff = kept.length > 0 ? kept[0].index : usable.length;
+  return { contents: normalizeTurns(kept.map(k => k.content)), dropped: usable.slice(0, cutoff) };
+};
+
+/**
+ * Prepend a summary of older turns to the history as a user/model exchange.
+ */
+export const withSummary = (contents: Content[], summary: string): Content[] => [
+  { role: 'user', parts: [{ text: `Summary of our earlier conversation:\n${summary}` }] },
+  { role: 'model', parts: [{ text: 'Understood, I will keep that context in mind.' }] },
+  ...contents,
+];
+
+// The API expects history to open with a user turn and alternate roles.
+export const normalizeTurns = (contents: Content[]): Content[] => {
+  const result: Content[] = [];
+  for (const content of contents) {
+    if (result.length === 0 && content.role !== 'user') continue;
+    const last = result[result.length - 1];
+    if (last && last.role === content.role) {
+      last.parts = [...(last.parts || []), ...(content.parts || [])];
+    } else {
+      result.push({ role: content.role, parts: [...(content.parts || [])] });
+    }
+  }
+  return result;
+};
@@ -0,0 +1,328 @@
+import { AppMode, GeneratedImage, Message, Thread } from '../types';
+
+/**
+ * CONVERSATION STORE (IndexedDB)
+ * Threads and message text live in small records so listing and searching stay fast.
+ * Heavy payloads (base64 images/audio, video blobs) are kept in a separate store and
+ * only read when a message is actually displayed.
+ */
+const DB_NAME = 'nano-banana';
+const DB_VERSION = 1;
+const THREADS = 'threads';
+const MESSAGES = 'messages';
+const BLOBS = 'blobs';
+
+export const DEFAULT_THREAD_TITLE = 'New conversation';
+
+type BlobField = 'image' | 'audioData' | 'video' | 'attachments' | 'variants';
+
+interface StoredMessage extends Omit<Message, 'image' | 'audioData' | 'videoUri' | 'storedBlobs'> {
+  threadId: string;
+  blobs: BlobField[];
+  videoUri?: string; // only kept when it is a remote URL
+}
+
+interface StoredBlob {
+  key: string; // `${messageId}:${field}`
+  messageId: string;
+  data: string | Blob | (string | null)[] | GeneratedImage[]; // attachments store one base64 entry per file
+}
+
+export interface SearchResult {
+  thread: Thread;
+  message: Message;
+  snippet: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(THREADS)) {
+          db.createObjectStore(THREADS, { keyPath: 'id' }).createIndex('mode', 'mode');
+        }
+        if (!db.objectStoreNames.contains(MESSAGES)) {
+          db.createObjectStore(MESSAGES, { keyPath: 'id' }).createIndex('threadId', 'threadId');
+        }
+        if (!db.objectStoreNames.contains(BLOBS)) {
+          db.createObjectStore(BLOBS, { keyPath: 'key' }).createIndex('messageId', 'messageId');
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const txDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// Change notifications so the Sidebar can refresh without polling
+const listeners = new Set<() => void>();
+export const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+const notify = () => listeners.forEach(l => l());
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const sortThreads = (threads: Thread[]) =>
+  threads.sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.updatedAt - a.updatedAt);
+
+/**
+ * THREADS
+ */
+export const listThreads = async (mode?: AppMode) => {
+  const db = await openDb();
+  const store = db.transaction(THREADS).objectStore(THREADS);
+  const threads = await promisify<Thread[]>(mode ? store.index('mode').getAll(mode) : store.getAll());
+  return sortThreads(threads);
+};
+
+export const getThread = async (id: string) => {
+  const db = await openDb();
+  return promisify<Thread | undefined>(db.transaction(THREADS).objectStore(THREADS).get(id));
+};
+
+export const createThread = async (mode: AppMode, title = DEFAULT_THREAD_TITLE, personaId?: string) => {
+  const now = Date.now();
+  const thread: Thread = { id: newId(), mode, title, pinned: false, personaId, createdAt: now, updatedAt: now };
+  const db = await openDb();
+  const tx = db.transaction(THREADS, 'readwrite');
+  tx.objectStore(THREADS).put(thread);
+  await txDone(tx);
+  notify();
+  return thread;
+};
+
+const updateThread = async (id: string, changes: Partial<Thread>) => {
+  const db = await openDb();
+  const tx = db.transaction(THREADS, 'readwrite');
+  const store = tx.objectStore(THREADS);
+  const thread = await promisify<Thread | undefined>(store.get(id));
+  if (thread) store.put({ ...thread, ...changes });
+  await txDone(tx);
+  notify();
+};
+
+export const renameThread = (id: string, title: string) => updateThread(id, { title: title.trim() || DEFAULT_THREAD_TITLE });
+
+export const setThreadPinned = (id: string, pinned: boolean) => updateThread(id, { pinned });
+
+export const setThreadPersona = (id: string, personaId: string) => updateThread(id, { personaId });
+
+export const deleteThread = async (id: string) => {
+  const db = await openDb();
+  const tx = db.transaction([THREADS, MESSAGES, BLOBS], 'readwrite');
+  const messageIds = await promisify<IDBValidKey[]>(tx.objectStore(MESSAGES).index('threadId').getAllKeys(id));
+  const blobIndex = tx.objectStore(BLOBS).index('messageId');
+  for (const messageId of messageIds) {
+    const blobKeys = await promisify<IDBValidKey[]>(blobIndex.getAllKeys(messageId));
+    blobKeys.forEach(key => tx.objectStore(BLOBS).delete(key));
+    tx.objectStore(MESSAGES).delete(messageId);
+  }
+  tx.objectStore(THREADS).delete(id);
+  await txDone(tx);
+  notify();
+};
+
+/**
+ * MESSAGES
+ */
+export const saveMessage = async (threadId: string, message: Message) => {
+  // Resolve local object URLs to bytes before opening the transaction (IDB txs can't span awaits on fetch)
+  let videoBlob: Blob | undefined;
+  if (message.videoUri?.startsWith('blob:')) {
+    videoBlob = await fetch(message.videoUri).then(r => r.blob()).catch(() => undefined);
+  }
+
+  const { image, audioData, videoUri, storedBlobs, attachments, variants, ...rest } = message;
+  const blobs: StoredBlob[] = [];
+  if (image) blobs.push({ key: `${message.id}:image`, messageId: message.id, data: image });
+  if (audioData) blobs.push({ key: `${message.id}:audioData`, messageId: message.id, data: audioData });
+  if (videoBlob) blobs.push({ key: `${message.id}:video`, messageId: message.id, data: videoBlob });
+  if (attachments?.some(a => a.data)) {
+    blobs.push({ key: `${message.id}:attachments`, messageId: message.id, data: attachments.map(a => a.data || null) });
+  }
+  if (variants?.length) blobs.push({ key: `${message.id}:variants`, messageId: message.id, data: variants });
+
+  const record: StoredMessage = {
+    ...rest,
+    attachments: attachments?.map(({ data: _data, ...meta }) => meta),
+    threadId,
+    // Keep previously stored blobs that were not hydrated into this copy of the message
+    blobs: Array.from(new Set([...(storedBlobs || []), ...blobs.map(b => b.key.split(':')[1] as BlobField)])),
+    videoUri: videoUri && !videoUri.startsWith('blob:') ? videoUri : undefined,
+  };
+
+  const db = await openDb();
+  const tx = db.transaction([THREADS, MESSAGES, BLOBS], 'readwrite');
+  tx.objectStore(MESSAGES).put(record);
+  blobs.forEach(b => tx.objectStore(BLOBS).put(b));
+
+  const threads = tx.objectStore(THREADS);
+  const thread = await promisify<Thread | undefined>(threads.get(threadId));
+  if (thread) {
+    const title = thread.title === DEFAULT_THREAD_TITLE && message.role === 'user' && message.text
+      ? message.text.trim().slice(0, 60)
+      : thread.title;
+    threads.put({ ...thread, title, updatedAt: Date.now() });
+  }
+  await txDone(tx);
+  notify();
+};
+
+export const deleteMessage = async (messageId: string) => {
+  const db = await openDb();
+  const tx = db.transaction([MESSAGES, BLOBS], 'readwrite');
+  const blobKeys = await promisify<IDBValidKey[]>(tx.objectStore(BLOBS).index('messageId').getAllKeys(messageId));
+  blobKeys.forEach(key => tx.objectStore(BLOBS).delete(key));
+  tx.objectStore(MESSAGES).delete(messageId);
+  await txDone(tx);
+  notify();
+};
+
+/**
+ * Load a thread's messages without their heavy payloads; see `loadMessageBlobs`.
+ */
+export const loadMessages = async (threadId: string): Promise<Message[]> => {
+  const db = await openDb();
+  const records = await promisify<StoredMessage[]>(
+    db.transaction(MESSAGES).objectStore(MESSAGES).index('threadId').getAll(threadId)
+  );
+  return records
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(({ threadId: _threadId, blobs, ...msg }) => ({ ...msg, storedBlobs: blobs.length > 0 ? blobs : undefined }));
+};
+
+export const loadMessageBlobs = async (messageId: string): Promise<Partial<Message>> => {
+  const db = await openDb();
+  const tx = db.transaction([MESSAGES, BLOBS]);
+  const message = await promisify<StoredMessage | undefined>(tx.objectStore(MESSAGES).get(messageId));
+  const records = await promisify<StoredBlob[]>(tx.objectStore(BLOBS).index('messageId').getAll(messageId));
+
+  const result: Partial<Message> = {};
+  for (const record of records) {
+    const field = record.key.split(':')[1] as BlobField;
+    if (field === 'video' && record.data instanceof Blob) {
+      result.videoUri = URL.createObjectURL(record.data);
+    } else if (field === 'attachments' && Array.isArray(record.data) && message?.attachments) {
+      const data = record.data as (string | null)[];
+      result.attachments = message.attachments.map((a, i) => ({ ...a, data: data[i] || undefined }));
+    } else if (field === 'variants' && Array.isArray(record.data)) {
+      result.variants = record.data as GeneratedImage[];
+    } else if ((field === 'image' || field === 'audioData') && typeof record.data === 'string') {
+      result[field] = record.data;
+    }
+  }
+  return result;
+};
+
+/**
+ * IMPORT
+ * Restores an exported thread under fresh ids, so importing the same file twice never
+ * overwrites anything. Edit chains are re-pointed at the new message ids.
+ */
+export const importThread = async (thread: Thread, messages: Message[]) => {
+  const created = await createThread(thread.mode, thread.title, thread.personaId);
+  const ids = new Map(messages.map(m => [m.id, newId()]));
+  for (const message of messages) {
+    const sourceId = message.editSource && ids.get(message.editSource.messageId);
+    await saveMessage(created.id, {
+      ...message,
+      id: ids.get(message.id)!,
+      editSource: sourceId ? { ...message.editSource, messageId: sourceId } : undefined,
+      videoJobId: undefined, // jobs belong to the browser that started them
+      storedBlobs: undefined,
+    });
+    if (message.videoUri?.startsWith('blob:')) URL.revokeObjectURL(message.videoUri);
+  }
+  if (thread.pinned) await setThreadPinned(created.id, true);
+  return created;
+};
+
+/**
+ * SEARCH
+ * Case-insensitive match of every query term against message text.
+ */
+export const searchMessages = async (query: string, limit = 50): Promise<SearchResult[]> => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const db = await openDb();
+  const tx = db.transaction([THREADS, MESSAGES]);
+  const threads = new Map((await promisify<Thread[]>(tx.objectStore(THREADS).getAll())).map(t => [t.id, t]));
+  const records = await promisify<StoredMessage[]>(tx.objectStore(MESSAGES).getAll());
+
+  const results: SearchResult[] = [];
+  for (const record of records.sort((a, b) => b.timestamp - a.timestamp)) {
+    const text = record.text || '';
+    const lower = text.toLowerCase();
+    const thread = threads.get(record.threadId);
+    if (!thread || !terms.every(t => lower.includes(t))) continue;
+
+    const at = lower.indexOf(terms[0]);
+    const start = Math.max(0, at - 30);
+    const snippet = (start > 0 ? '…' : '') + text.slice(start, at + 70).replace(/\s+/g, ' ') + (at + 70 < text.length ? '…' : '');
+    const { threadId: _threadId, blobs: _blobs, ...message } = record;
+    results.push({ thread, message, snippet });
+    if (results.length >= limit) break;
+  }
+  return results;
+};
+
+/**
+ * GALLERY
+ * Every image the model generated, newest first, across all threads. Paged because
+ * each entry pulls its payload from the blob store.
+ */
+export interface GalleryItem {
+  messageId: string;
+  thread: Thread;
+  image: GeneratedImage;
+  ref: { messageId: string; variantIndex?: number };
+  prompt?: string;
+  timestamp: number;
+}
+
+export const listGeneratedImages = async (offset = 0, limit = 24): Promise<{ items: GalleryItem[]; hasMore: boolean }> => {
+  const db = await openDb();
+  const tx = db.transaction([THREADS, MESSAGES, BLOBS]);
+  const threads = new Map((await promisify<Thread[]>(tx.objectStore(THREADS).getAll())).map(t => [t.id, t]));
+  const records = (await promisify<StoredMessage[]>(tx.objectStore(MESSAGES).getAll()))
+    .filter(r => r.role === 'model' && threads.has(r.threadId) && r.blobs.some(b => b === 'image' || b === 'variants'))
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+  const page = records.slice(offset, offset + limit);
+  const items: GalleryItem[] = [];
+  for (const record of page) {
+    const base = { messageId: record.id, thread: threads.get(record.threadId)!, prompt: record.generation?.prompt, timestamp: record.timestamp };
+    const blobs = await promisify<StoredBlob[]>(tx.objectStore(BLOBS).index('messageId').getAll(record.id));
+    for (const blob of blobs) {
+      const field = blob.key.split(':')[1] as BlobField;
+      if (field === 'image' && typeof blob.data === 'string') {
+        items.push({ ...base, image: { data: blob.data, mimeType: record.imageMimeType || 'image/png' }, ref: { messageId: record.id } });
+      } else if (field === 'variants' && Array.isArray(blob.data)) {
+        (blob.data as GeneratedImage[]).forEach((image, variantIndex) =>
+          items.push({ ...base, image, ref: { messageId: record.id, variantIndex } }));
+      }
+    }
+  }
+  return { items, hasMore: offset + limit < records.length };
+};
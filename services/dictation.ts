@@ -0,0 +1,62 @@
+import { transcribeAudio } from './geminiService';
+import { readAsBase64 } from './attachments';
+import { MicCapture, startMicCapture } from './audioCapture';
+
+/**
+ * DICTATION
+ * Records a voice note with MediaRecorder for the chat composer. The mic level comes
+ * from the same worklet the Live call uses, so the waveform looks the same in both.
+ * The finished clip is transcribed in one request.
+ */
+export const MAX_DICTATION_MS = 2 * 60 * 1000;
+
+export interface Dictation {
+  stop: () => Promise<Blob | null>; // resolves with the recording
+  cancel: () => void;
+}
+
+export const startDictation = async (onLevel: (level: number) => void, onLimit: () => void): Promise<Dictation> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const chunks: Blob[] = [];
+  let recorder: MediaRecorder;
+  let capture: MicCapture;
+  try {
+    recorder = new MediaRecorder(stream);
+    capture = await startMicCapture(stream, (_pcm, level) => onLevel(level));
+  } catch (e) {
+    stream.getTracks().forEach(t => t.stop());
+    throw e;
+  }
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  recorder.start();
+  const limitTimer = setTimeout(onLimit, MAX_DICTATION_MS);
+
+  const release = () => {
+    clearTimeout(limitTimer);
+    capture.stop();
+    stream.getTracks().forEach(t => t.stop());
+  };
+
+  return {
+    stop: () => new Promise<Blob | null>((resolve) => {
+      if (recorder.state === 'inactive') return resolve(null);
+      recorder.onstop = () => {
+        release();
+        // Drop codec parameters such as ";codecs=opus"
+        const mimeType = (recorder.mimeType || 'audio/webm').split(';')[0];
+        resolve(chunks.length > 0 ? new Blob(chunks, { type: mimeType }) : null);
+      };
+      recorder.stop();
+    }),
+    cancel: () => {
+      recorder.onstop = null;
+      if (recorder.state !== 'inactive') recorder.stop();
+      release();
+    },
+  };
+};
+
+export const transcribeRecording = async (recording: Blob) => {
+  const text = await transcribeAudio(await readAsBase64(recording), recording.type);
+  return (text || '').trim();
+};
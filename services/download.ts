@@ -0,0 +1,10 @@
+// Save a generated file through a temporary link
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  // Revoke on the next tick; some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,234 @@
+import { GenerateContentResponse } from '@google/genai';
+import { ErrorKind } from '../types';
+
+/**
+ * ERRORS
+ * Failed model calls are turned into an AIError whose `kind` says what went wrong, so
+ * the UI can explain it and decide whether trying again makes sense. Transient failures
+ * (network, timeouts, server errors, and rate limits that say when to come back) are
+ * retried with exponential backoff by `withRetry` before they reach the user. A daily or
+ * billing quota is not transient: waiting a few seconds won't help.
+ */
+const TRANSIENT: ErrorKind[] = ['network', 'timeout', 'server'];
+
+// Longest wait a rate limit may ask for and still be retried automatically
+const MAX_RETRY_AFTER_MS = 60 * 1000;
+
+export class AIError extends Error {
+  kind: ErrorKind;
+  status?: number;
+  retryAfterMs?: number; // for rate limits, how long the service asked us to wait
+
+  constructor(kind: ErrorKind, message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'AIError';
+    this.kind = kind;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get transient() {
+    if (this.kind === 'quota') return this.retryAfterMs !== undefined && this.retryAfterMs <= MAX_RETRY_AFTER_MS;
+    return TRANSIENT.includes(this.kind);
+  }
+}
+
+// Gemini status names, for errors that arrive without an HTTP status
+const STATUS_KINDS: Record<string, ErrorKind> = {
+  UNAUTHENTICATED: 'auth',
+  PERMISSION_DENIED: 'auth',
+  RESOURCE_EXHAUSTED: 'quota',
+  INVALID_ARGUMENT: 'invalid',
+  FAILED_PRECONDITION: 'invalid',
+  NOT_FOUND: 'invalid',
+  DEADLINE_EXCEEDED: 'timeout',
+  UNAVAILABLE: 'server',
+  INTERNAL: 'server',
+};
+
+const kindForStatus = (status: number): ErrorKind | undefined => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'server';
+  if (status >= 400) return 'invalid';
+  return undefined;
+};
+
+const DEFAULT_MESSAGES: Record<ErrorKind, string> = {
+  auth: 'The API key was rejected. Check GEMINI_API_KEY on the server.',
+  quota: 'Rate limit or quota reached. Wait a moment and try again.',
+  safety: 'The response was blocked by the safety filters.',
+  invalid: 'The request was not accepted.',
+  network: "Couldn't reach the server. Check your connection.",
+  timeout: 'The request took too long and was stopped.',
+  server: 'The model service had a problem. Try again in a moment.',
+  unknown: 'Something went wrong.',
+};
+
+interface ApiError {
+  code?: number;
+  message?: string;
+  status?: string;
+  details?: { '@type'?: string; retryDelay?: string; violations?: { quotaId?: string }[] }[];
+}
+
+// The SDK puts the JSON error body ({ error: { code, message, status, details } }) in the message
+const parseApiMessage = (message: string) => {
+  try {
+    const body = JSON.parse(message.slice(message.indexOf('{')));
+    return body?.error as ApiError | undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * How long a quota error asks us to wait: RetryInfo in the details, or "retry in 23s" /
+ * "try again in 5s" (our proxy) in the text. Undefined for per-day quotas, which report
+ * a delay too but won't reset soon, and for quota errors that give no delay at all
+ * (billing and other hard limits).
+ */
+const retryDelayOf = (api: ApiError | undefined) => {
+  const details = api?.details || [];
+  if (details.some(d => d.violations?.some(v => /PerDay/i.test(v.quotaId || '')))) return undefined;
+  const delay = details.find(d => d['@type']?.endsWith('RetryInfo'))?.retryDelay
+    ?? api?.message?.match(/(?:retry|try again) in ([\d.]+) ?s/i)?.[1];
+  const seconds = delay === undefined ? NaN : parseFloat(delay);
+  return Number.isFinite(seconds) ? seconds * 1000 : undefined;
+};
+
+/**
+ * Classify anything thrown by a provider or the SDK.
+ */
+export const toAIError = (e: unknown): AIError => {
+  if (e instanceof AIError) return e;
+  const err = e as { name?: string; message?: string; status?: number } | undefined;
+  const raw = err?.message || '';
+  const api = parseApiMessage(raw);
+  const status = err?.status ?? api?.code;
+
+  let kind: ErrorKind = (status !== undefined && kindForStatus(status))
+    || (api?.status && STATUS_KINDS[api.status])
+    || 'unknown';
+  if (kind === 'unknown') {
+    if (err?.name === 'TypeError' && /fetch|network/i.test(raw)) kind = 'network';
+    else if (!navigator.onLine) kind = 'network';
+    else if (err?.name === 'TimeoutError' || /timed? ?out/i.test(raw)) kind = 'timeout';
+    else if (/api key/i.test(raw)) kind = 'auth';
+  }
+
+  // Keep the service's own explanation where it adds something
+  let message = DEFAULT_MESSAGES[kind];
+  if (kind === 'invalid' && (api?.message || raw)) message = `The request was not accepted: ${api?.message || raw}`;
+  else if (kind === 'quota' && api?.message) message = `${message} (${api.message})`;
+  else if (kind === 'unknown' && raw) message = api?.message || raw;
+  return new AIError(kind, message, status, kind === 'quota' ? retryDelayOf(api) : undefined);
+};
+
+/**
+ * SAFETY BLOCKS
+ * A blocked prompt comes back as a normal response with `promptFeedback.blockReason`;
+ * a blocked answer stops with a safety-related `finishReason`. Either way the response
+ * has nothing useful in it, so it is reported as an error that says why.
+ */
+const BLOCK_EXPLANATIONS: Record<string, string> = {
+  SAFETY: 'it was flagged by the safety filters',
+  BLOCKLIST: 'it contains blocked terms',
+  PROHIBITED_CONTENT: 'it may contain prohibited content',
+  SPII: 'it may contain sensitive personal information',
+  RECITATION: 'it would have repeated copyrighted material too closely',
+  IMAGE_SAFETY: 'the image was flagged by the safety filters',
+  IMAGE_PROHIBITED_CONTENT: 'the image may contain prohibited content',
+  JAILBREAK: 'it looks like an attempt to get around the safety rules',
+  MODEL_ARMOR: 'it was flagged by the content policy',
+};
+
+const flaggedCategories = (ratings: { category?: string; probability?: string; blocked?: boolean }[] = []) =>
+  ratings
+    .filter(r => r.blocked || r.probability === 'HIGH' || r.probability === 'MEDIUM')
+    .map(r => (r.category || '').replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase())
+    .filter(Boolean);
+
+// The AIError describing why a response was blocked, or undefined if it wasn't
+export const safetyBlock = (response: GenerateContentResponse): AIError | undefined => {
+  const feedback = response.promptFeedback;
+  const candidate = response.candidates?.[0];
+  const blockedPrompt = !!feedback?.blockReason;
+  const reason = feedback?.blockReason || candidate?.finishReason;
+  if (!reason || !BLOCK_EXPLANATIONS[reason]) return undefined;
+
+  const categories = flaggedCategories(blockedPrompt ? feedback?.safetyRatings : candidate?.safetyRatings);
+  let message = `${blockedPrompt ? 'Your prompt was' : 'The response was'} blocked because ${BLOCK_EXPLANATIONS[reason]}`;
+  if (categories.length > 0) message += ` (${categories.join(', ')})`;
+  message += '.';
+  const detail = feedback?.blockReasonMessage || candidate?.finishMessage;
+  if (detail) message += ` ${detail}`;
+  return new AIError('safety', `${message} Try rephrasing your request.`);
+};
+
+/**
+ * RETRIES
+ * Transient failures are tried again up to MAX_ATTEMPTS times, waiting about 1s, 2s, 4s, ...
+ * (with jitter) in between, or as long as a rate limit asks. Each attempt gets its own
+ * AbortSignal, which `call` hands to the SDK: it fires when the attempt runs past `timeoutMs`
+ * (cancelling the request, and with it the proxy's upstream call) or when `signal` does.
+ *
+ * Billable calls are not `idempotent`: after a timeout or a dropped connection the first
+ * request may still have been carried out and billed, so they are only sent again when the
+ * service answered that it did nothing (a rate limit or a server error).
+ */
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 16000;
+export const REQUEST_TIMEOUT_MS = 3 * 60 * 1000;
+
+interface RetryOptions {
+  timeoutMs?: number; // 0 for no limit
+  signal?: AbortSignal;
+  idempotent?: boolean; // default true
+}
+
+const REFUSED: ErrorKind[] = ['quota', 'server'];
+
+// Runs one attempt, aborting it once it has taken `ms`
+const withTimeout = <T>(call: (signal: AbortSignal) => Promise<T>, ms: number, signal?: AbortSignal) => {
+  const timeout = new AbortController();
+  const attemptSignal = signal ? AbortSignal.any([signal, timeout.signal]) : timeout.signal;
+  if (ms <= 0) return call(attemptSignal);
+  let timer: ReturnType<typeof setTimeout>;
+  return Promise.race([
+    call(attemptSignal),
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(new AIError('timeout', DEFAULT_MESSAGES.timeout));
+        timeout.abort();
+      }, ms);
+    }),
+  ]).finally(() => clearTimeout(timer));
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+});
+
+export const withRetry = async <T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  { timeoutMs = REQUEST_TIMEOUT_MS, signal, idempotent = true }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await withTimeout(call, timeoutMs, signal);
+    } catch (e) {
+      // Stopped by the user: hand the abort back untouched
+      if (signal?.aborted) throw e;
+      const error = toAIError(e);
+      if (!error.transient || attempt >= MAX_ATTEMPTS) throw error;
+      if (!idempotent && !REFUSED.includes(error.kind)) throw error;
+      const backoff = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1)) * (0.75 + Math.random() * 0.5);
+      await sleep(Math.max(backoff, error.retryAfterMs ?? 0), signal);
+      if (signal?.aborted) throw error;
+    }
+  }
+};
@@ -0,0 +1,311 @@
+import { GoogleGenAI, Type, Modality, FileState, GenerateVideosOperation, Part } from "@google/genai";
+import { normalizeTurns } from "./chatHistory";
+import { attachmentToPart } from "./attachments";
+import { applyStyle, findPreset } from "./imagePresets";
+import { getToolDeclarations } from "./tools";
+import { findPersona, personaInstruction } from "./personas";
+import { modelFor, resolveChatModel, thinkingBudgetFor, videoModelFor } from "./models";
+import type { AIProvider, ChatRequest } from "./aiProvider";
+
+/**
+ * CLIENT
+ * Every request goes through our server (server/index.js), which holds the real API key.
+ * The SDK insists on a key, so it gets a random per-browser id that the server uses to
+ * rate limit and log per user; it is never sent on to Google.
+ */
+const GEMINI_ORIGIN = 'https://generativelanguage.googleapis.com';
+const API_BASE_URL = `${window.location.origin}/api/gemini`;
+const CLIENT_ID_KEY = 'nano-banana.clientId';
+// How long an uploaded file may sit in PROCESSING before we give up on it
+const MAX_PROCESSING_MS = 10 * 60_000;
+
+const getClientId = () => {
+  let id = localStorage.getItem(CLIENT_ID_KEY);
+  if (!id) {
+    id = `nb-${crypto.randomUUID()}`;
+    localStorage.setItem(CLIENT_ID_KEY, id);
+  }
+  return id;
+};
+
+// Helper to get a fresh client
+const getClient = () => new GoogleGenAI({ apiKey: getClientId(), httpOptions: { baseUrl: API_BASE_URL } });
+
+// Builds the streaming chat request
+const buildChatRequest = ({ prompt, history, files, config, geoLocation, toolTurns = [] }: ChatRequest) => {
+  const model = resolveChatModel(config);
+
+  // Tools setup
+  const tools: any[] = [];
+  if (config.useSearch) {
+    tools.push({ googleSearch: {} });
+  }
+  if (config.useMaps) {
+    tools.push({ googleMaps: {} });
+  }
+  // Grounding tools can't be combined with function calling, so local tools only join plain chats
+  if (tools.length === 0 && model.tools.functions) {
+    tools.push({ functionDeclarations: getToolDeclarations() });
+  }
+
+  // Tool Config for Location
+  let toolConfig = undefined;
+  if (config.useMaps && geoLocation) {
+    toolConfig = {
+      retrievalConfig: {
+        latLng: {
+          latitude: geoLocation.latitude,
+          longitude: geoLocation.longitude
+        }
+      }
+    };
+  }
+
+  // Thinking Config
+  let thinkingConfig = undefined;
+  if (config.useThinking && model.thinking) {
+    thinkingConfig = { thinkingBudget: thinkingBudgetFor(config), includeThoughts: true };
+  }
+
+  // Construct contents
+  const parts: any[] = files.map(attachmentToPart);
+  parts.push({ text: prompt });
+
+  const reqConfig: any = {
+    systemInstruction: personaInstruction(findPersona(config.personaId)),
+    tools: tools.length > 0 ? tools : undefined,
+    toolConfig,
+  };
+
+  if (thinkingConfig) {
+    reqConfig.thinkingConfig = thinkingConfig;
+    // Do not set maxOutputTokens when using thinking
+  }
+
+  return {
+    model: model.id,
+    contents: normalizeTurns([...history, { role: 'user', parts }, ...toolTurns]),
+    config: reqConfig
+  };
+};
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  imageModel: modelFor('image').id,
+  videoModel: (model) => videoModelFor(model).id,
+
+  streamChat: (request, abortSignal) => {
+    const built = buildChatRequest(request);
+    return getClient().models.generateContentStream({ ...built, config: { ...built.config, abortSignal } });
+  },
+
+  // Condenses turns that no longer fit the history budget, with a cheap model.
+  summarize: async (history, previousSummary, abortSignal) => {
+    const transcript = history
+      .map(c => `${c.role === 'user' ? 'User' : 'Assistant'}: ${(c.parts || []).map(p => p.text || '[attachment]').join(' ')}`)
+      .join('\n');
+
+    const response = await getClient().models.generateContent({
+      model: modelFor('summary').id,
+      contents: {
+        parts: [{
+          text: `Summarize the following conversation in a few short bullet points, keeping names, facts, decisions and open questions.` +
+            (previousSummary ? `\n\nEarlier summary:\n${previousSummary}` : '') +
+            `\n\nConversation:\n${transcript}`
+        }]
+      },
+      config: { abortSignal },
+    });
+    return { value: response.text || previousSummary || '', usageMetadata: response.usageMetadata };
+  },
+
+  // Video and audio files need server-side processing before they can be referenced,
+  // so wait until the file is ACTIVE, but not forever.
+  uploadFile: async (file, mimeType, abortSignal) => {
+    const ai = getClient();
+    let uploaded = await ai.files.upload({ file, config: { mimeType, abortSignal } });
+
+    const deadline = Date.now() + MAX_PROCESSING_MS;
+    while (uploaded.state === FileState.PROCESSING && uploaded.name) {
+      if (Date.now() > deadline) {
+        throw new Error(`The file was still being processed after ${MAX_PROCESSING_MS / 60_000} minutes. Try a shorter or smaller file.`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 2000));
+      uploaded = await ai.files.get({ name: uploaded.name, config: { abortSignal } });
+    }
+    if (uploaded.state === FileState.FAILED || !uploaded.uri) {
+      throw new Error(uploaded.error?.message || "File upload failed");
+    }
+
+    return {
+      fileUri: uploaded.uri,
+      expiresAt: uploaded.expirationTime ? new Date(uploaded.expirationTime).getTime() : undefined
+    };
+  },
+
+  generateImage: (prompt, config, seed, abortSignal) => getClient().models.generateContent({
+    model: modelFor('image').id,
+    contents: { parts: [{ text: applyStyle(prompt, findPreset(config.stylePreset), config.negativePrompt) }] },
+    config: {
+      seed,
+      abortSignal,
+      imageConfig: {
+        aspectRatio: config.aspectRatio,
+        imageSize: config.size
+      }
+    }
+  }),
+
+  editImage: (prompt, source, references, abortSignal) => getClient().models.generateContent({
+    model: modelFor('edit').id,
+    contents: {
+      parts: [
+        { inlineData: { data: source.data, mimeType: source.mimeType } },
+        ...references.map(r => ({ inlineData: { data: r.data, mimeType: r.mimeType } })),
+        { text: references.length > 0 ? `${prompt}\n\nThe first image is the one to edit; the others are references.` : prompt }
+      ]
+    },
+    config: { abortSignal },
+  }),
+
+  startVideo: async (prompt, config, frames, abortSignal) => {
+    const ai = getClient();
+
+    // Veo 3.1 renders one video per operation; more outputs are separate jobs
+    const veoConfig = {
+      numberOfVideos: 1,
+      resolution: config.resolution,
+      aspectRatio: config.aspectRatio,
+      durationSeconds: config.durationSeconds,
+      negativePrompt: config.negativePrompt || undefined,
+      lastFrame: frames.last ? { imageBytes: frames.last.data, mimeType: frames.last.mimeType } : undefined,
+      abortSignal,
+    };
+
+    const operation = await ai.models.generateVideos({
+      model: videoModelFor(config.model).id,
+      prompt,
+      image: frames.first ? { imageBytes: frames.first.data, mimeType: frames.first.mimeType } : undefined,
+      config: veoConfig
+    });
+    if (!operation.name) throw new Error("Veo did not return an operation to track");
+    return operation.name;
+  },
+
+  // Works from the name alone, so jobs can be resumed after a reload
+  getVideoOperation: (operationName) => {
+    const operation = new GenerateVideosOperation();
+    operation.name = operationName;
+    return getClient().operations.getVideosOperation({ operation });
+  },
+
+  downloadVideo: async (videoUri, abortSignal) => {
+    // Download links point at Google; fetch them through the proxy, which adds the key
+    const res = await fetch(videoUri.replace(GEMINI_ORIGIN, API_BASE_URL), { headers: { 'x-goog-api-key': getClientId() }, signal: abortSignal });
+    if (!res.ok) throw new Error("Failed to download video bytes");
+    return await res.blob();
+  },
+
+  generateSpeech: async (text, voice, abortSignal) => {
+    const response = await getClient().models.generateContent({
+      model: modelFor('tts').id,
+      contents: [{ parts: [{ text }] }],
+      config: {
+        abortSignal,
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: voice },
+          },
+        },
+      },
+    });
+    return { value: response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data, usageMetadata: response.usageMetadata };
+  },
+
+  // Lines must be written as "Name: text" using the configured speaker names
+  generateDialogueSpeech: async (dialogue, speakers, abortSignal) => {
+    const response = await getClient().models.generateContent({
+      model: modelFor('tts').id,
+      contents: [{ parts: [{ text: `TTS the following conversation between ${speakers.map(s => s.name).join(' and ')}:\n${dialogue}` }] }],
+      config: {
+        abortSignal,
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          multiSpeakerVoiceConfig: {
+            speakerVoiceConfigs: speakers.map(s => ({
+              speaker: s.name,
+              voiceConfig: { prebuiltVoiceConfig: { voiceName: s.voice } },
+            })),
+          },
+        },
+      },
+    });
+    return { value: response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data, usageMetadata: response.usageMetadata };
+  },
+
+  writePodcastScript: async (source, speakerNames, targetWords, abortSignal) => {
+    const parts: Part[] = [];
+    if (source.document) parts.push(attachmentToPart(source.document));
+    const material = source.document ? 'the attached document'
+      : source.conversation ? `this conversation:\n${source.conversation}`
+      : `this topic: ${source.topic}`;
+    parts.push({
+      text: `Write a lively two-host podcast episode about ${material}\n\n` +
+        `The hosts are ${speakerNames[0]} and ${speakerNames[1]}. They take turns, react to each other and explain ` +
+        `things in plain spoken language, without stage directions or sound effects. Aim for about ${targetWords} words.`
+    });
+
+    const response = await getClient().models.generateContent({
+      model: modelFor('podcast').id,
+      contents: { parts },
+      config: {
+        abortSignal,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING },
+            lines: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  speaker: { type: Type.STRING, enum: speakerNames },
+                  text: { type: Type.STRING },
+                },
+                required: ['speaker', 'text'],
+              },
+            },
+          },
+          required: ['title', 'lines'],
+        },
+      },
+    });
+    const parsed = JSON.parse(response.text || '{}') as { title?: string; lines?: { speaker: string; text: string }[] };
+    if (!parsed.lines?.length) throw new Error("The model did not return a script.");
+    return {
+      value: {
+        title: parsed.title || 'Untitled episode',
+        lines: parsed.lines.map(l => ({ speaker: (l.speaker === speakerNames[1] ? 1 : 0) as 0 | 1, text: l.text })),
+      },
+      usageMetadata: response.usageMetadata,
+    };
+  },
+
+  transcribeAudio: async (audioBase64, mimeType, abortSignal) => {
+    const response = await getClient().models.generateContent({
+      model: modelFor('transcription').id,
+      contents: {
+        parts: [
+          { inlineData: { data: audioBase64, mimeType } },
+          { text: "Transcribe this audio exactly." }
+        ]
+      },
+      config: { abortSignal },
+    });
+    return { value: response.text, usageMetadata: response.usageMetadata };
+  },
+
+  connectLive: (params) => getClient().live.connect(params),
+};
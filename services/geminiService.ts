@@ -1,222 +1,228 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { ChatConfig, ImageConfig, VideoConfig, ModelTier } from "../types";
+import { Content, FunctionCall, GenerateContentResponseUsageMetadata, LiveConnectParameters, Part } from "@google/genai";
+import { Attachment, ChatConfig, GeneratedImage, ImageConfig, ImageGenerationInfo, VideoConfig, PodcastSpeaker, TokenUsage, ToolCallRecord } from "../types";
+import { MAX_TOOL_ROUNDS, runToolCalls } from "./tools";
+import { findPersona } from "./personas";
+import { GeoLocation, ImageInput, Metered, PodcastSource, getProvider } from "./aiProvider";
+import { ModelRole, modelFor, resolveChatModel } from "./models";
+import { UsageKind, addUsage, recordUsage, tokenUsage } from "./usage";
+import { safetyBlock, withRetry } from "./errors";
 
-// Helper to get a fresh client (needed for Veo key updates)
-const getClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+export type { PodcastSource } from "./aiProvider";
 
 /**
- * TEXT & CHAT GENERATION
+ * MODEL CALLS
+ * What the app calls to talk to a model. The actual requests are made by the active
+ * provider (services/aiProvider.ts); the logic that works the same for every provider
+ * (running local tools, image batches, retries and safety checks) lives here.
+ *
+ * Calls are retried on transient failures and reject with an AIError (services/errors.ts).
+ * Calls that hand back a plain value (summaries, speech, transcripts, ...) are added to the
+ * usage ledger here; chat, image and video usage is recorded by the caller.
  */
-export const generateChatResponse = async (
-  prompt: string,
-  history: { role: string; parts: any[] }[],
-  files: { data: string; mimeType: string }[],
-  config: ChatConfig,
-  geoLocation?: { latitude: number; longitude: number }
+
+const metered = async <T>(
+  kind: UsageKind,
+  role: ModelRole,
+  threadId: string | null,
+  call: (signal: AbortSignal) => Promise<Metered<T>>,
+  timeoutMs?: number
 ) => {
-  const ai = getClient();
-  
-  let modelName = 'gemini-2.5-flash'; // Standard Default
-  
-  if (config.modelTier === ModelTier.FAST) {
-    modelName = 'gemini-flash-lite-latest';
-  } else if (config.modelTier === ModelTier.PRO || config.useThinking) {
-    modelName = 'gemini-3-pro-preview';
-  }
+  const { value, usageMetadata } = await withRetry(call, { timeoutMs, idempotent: false });
+  if (usageMetadata) recordUsage({ ...tokenUsage(modelFor(role).id, usageMetadata), threadId, kind });
+  return value;
+};
 
-  // Tools setup
-  const tools: any[] = [];
-  if (config.useSearch) {
-    tools.push({ googleSearch: {} });
-  }
-  if (config.useMaps) {
-    tools.push({ googleMaps: {} });
-  }
+/**
+ * STREAMING CHAT
+ * Yields partial responses as they arrive. Parts flagged `thought` are thought summaries
+ * (only sent when thinking is enabled). Aborting the signal ends the stream early.
+ * Only opening the stream is retried; a failure halfway through is passed on.
+ */
+export const streamChatResponse = async (
+  prompt: string,
+  history: Content[],
+  files: Attachment[],
+  config: ChatConfig,
+  geoLocation?: GeoLocation,
+  abortSignal?: AbortSignal,
+  toolTurns: Content[] = []
+) => withRetry(
+  signal => getProvider().streamChat({ prompt, history, files, config, geoLocation, toolTurns }, signal),
+  { signal: abortSignal, idempotent: false }
+);
 
-  // Tool Config for Location
-  let toolConfig = undefined;
-  if (config.useMaps && geoLocation) {
-    toolConfig = {
-      retrievalConfig: {
-        latLng: {
-          latitude: geoLocation.latitude,
-          longitude: geoLocation.longitude
+/**
+ * Like `streamChatResponse`, but runs the local tools the model calls and feeds the
+ * results back until it answers (at most MAX_TOOL_ROUNDS rounds). Chunks from every
+ * round are yielded in order; `onToolCalls` reports each round's calls and results,
+ * and `onUsage` the tokens used so far, summed over rounds. A blocked response throws.
+ */
+export async function* streamChatWithTools(
+  prompt: string,
+  history: Content[],
+  files: Attachment[],
+  config: ChatConfig,
+  geoLocation: GeoLocation | undefined,
+  abortSignal: AbortSignal | undefined,
+  onToolCalls: (records: ToolCallRecord[]) => void,
+  onUsage?: (usage: TokenUsage) => void
+) {
+  const model = resolveChatModel(config).id;
+  let usage: TokenUsage | undefined;
+  let toolTurns: Content[] = [];
+  for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+    const stream = await streamChatResponse(prompt, history, files, config, geoLocation, abortSignal, toolTurns);
+    const calls: FunctionCall[] = [];
+    const modelParts: Part[] = []; // replayed verbatim so thought signatures survive
+    let roundUsage: GenerateContentResponseUsageMetadata | undefined; // each chunk carries the running count
+    try {
+      for await (const chunk of stream) {
+        roundUsage = chunk.usageMetadata || roundUsage;
+        const blocked = safetyBlock(chunk);
+        if (blocked) throw blocked;
+        for (const part of chunk.candidates?.[0]?.content?.parts || []) {
+          if (part.functionCall) calls.push(part.functionCall);
+          modelParts.push(part);
         }
+        yield chunk;
       }
-    };
-  }
-
-  // Thinking Config
-  let thinkingConfig = undefined;
-  if (config.useThinking && modelName === 'gemini-3-pro-preview') {
-    thinkingConfig = { thinkingBudget: 32768 };
+    } finally {
+      if (roundUsage) {
+        usage = addUsage(usage, tokenUsage(model, roundUsage));
+        onUsage?.(usage);
+      }
+    }
+    if (calls.length === 0 || abortSignal?.aborted) return;
+
+    const results = await runToolCalls(calls);
+    onToolCalls(results.map(r => r.record));
+    toolTurns = [
+      ...toolTurns,
+      { role: 'model', parts: modelParts },
+      { role: 'user', parts: results.map(r => ({ functionResponse: r.response })) },
+    ];
   }
+}
 
-  // Construct contents
-  const parts: any[] = [];
-  files.forEach(f => {
-    parts.push({ inlineData: { data: f.data, mimeType: f.mimeType } });
-  });
-  parts.push({ text: prompt });
-
-  const reqConfig: any = {
-    tools: tools.length > 0 ? tools : undefined,
-    toolConfig,
-  };
+/**
+ * FILE UPLOADS (Files API)
+ * Used for attachments too large to send inline.
+ */
+// No time limit: large files take a while to upload and process
+export const uploadFile = (file: Blob, mimeType: string) =>
+  withRetry(signal => getProvider().uploadFile(file, mimeType, signal), { timeoutMs: 0 });
 
-  if (thinkingConfig) {
-    reqConfig.thinkingConfig = thinkingConfig;
-    // Do not set maxOutputTokens when using thinking
-  } 
-
-  // If using Flash Image for EDITING (detected via logic in App or explicit user intent, 
-  // but here we are in generic chat. If file is present and user asks for edit, 
-  // we might want 2.5 flash image, but Pro 3 can also handle image ops. 
-  // For explicit "Edit this image" feature, see separate function below.
-  
-  const response = await ai.models.generateContent({
-    model: modelName,
-    contents: { parts },
-    config: reqConfig
-  });
+/**
+ * HISTORY SUMMARIZATION
+ * Condenses turns that no longer fit the history budget.
+ */
+export const summarizeConversation = (history: Content[], previousSummary?: string, threadId: string | null = null) =>
+  metered('summary', 'summary', threadId, signal => getProvider().summarize(history, previousSummary, signal));
 
+/**
+ * IMAGE GENERATION
+ */
+export const generateImage = async (prompt: string, config: ImageConfig, seed?: number) => {
+  const response = await withRetry(signal => getProvider().generateImage(prompt, config, seed, signal), { idempotent: false });
+  const blocked = safetyBlock(response);
+  if (blocked) throw blocked;
   return response;
 };
 
 /**
- * IMAGE GENERATION
+ * BATCH IMAGE GENERATION
+ * Runs `config.count` generations in parallel. Each variant gets its own seed (base + index)
+ * so any single result can be reproduced later from the stored generation info.
  */
-export const generateImage = async (prompt: string, config: ImageConfig) => {
-  const ai = getClient();
-  const model = 'gemini-3-pro-image-preview'; // Nano Banana Pro
-
-  const response = await ai.models.generateContent({
-    model,
-    contents: { parts: [{ text: prompt }] },
-    config: {
-      imageConfig: {
-        aspectRatio: config.aspectRatio,
-        imageSize: config.size
-      }
+export const generateImageBatch = async (prompt: string, config: ImageConfig) => {
+  const baseSeed = config.seed ?? Math.floor(Math.random() * 2 ** 31);
+  const count = Math.max(1, config.count);
+
+  const results = await Promise.allSettled(
+    Array.from({ length: count }, (_, i) => generateImage(prompt, config, baseSeed + i))
+  );
+
+  const model = getProvider().imageModel;
+  const images: GeneratedImage[] = [];
+  let text = '';
+  let usage: TokenUsage | undefined;
+  results.forEach((result, i) => {
+    if (result.status !== 'fulfilled') return;
+    const count = images.length;
+    for (const part of result.value.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData?.data) images.push({ data: part.inlineData.data, mimeType: part.inlineData.mimeType || 'image/png', seed: baseSeed + i });
+      else if (part.text && !text) text = part.text;
     }
+    const metadata = result.value.usageMetadata;
+    if (metadata) usage = addUsage(usage, tokenUsage(model, metadata, { count: images.length - count, size: config.size }));
   });
-  return response;
+
+  // Only fail when every variant failed; partial batches are still useful
+  const firstError = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+  if (images.length === 0 && firstError) throw firstError.reason;
+
+  const generation: ImageGenerationInfo = {
+    prompt,
+    model,
+    aspectRatio: config.aspectRatio,
+    size: config.size,
+    stylePreset: config.stylePreset,
+    negativePrompt: config.negativePrompt,
+    seed: baseSeed,
+  };
+  return { images, text, generation, usage, failed: results.filter(r => r.status === 'rejected').length };
 };
 
 /**
- * IMAGE EDITING (Gemini 2.5 Flash Image)
+ * IMAGE EDITING
+ * The source image goes first; optional reference images (style, objects to insert, ...) follow it.
  */
-export const editImage = async (prompt: string, base64Image: string, mimeType: string) => {
-  const ai = getClient();
-  const model = 'gemini-2.5-flash-image';
-
-  const response = await ai.models.generateContent({
-    model,
-    contents: {
-      parts: [
-        { inlineData: { data: base64Image, mimeType } },
-        { text: prompt }
-      ]
-    }
-  });
+export const editImage = async (prompt: string, source: ImageInput, references: ImageInput[] = []) => {
+  const response = await withRetry(signal => getProvider().editImage(prompt, source, references, signal), { idempotent: false });
+  const blocked = safetyBlock(response);
+  if (blocked) throw blocked;
   return response;
 };
 
 /**
  * VIDEO GENERATION (Veo)
+ * Rendering takes minutes, so starting a job and checking on it are separate calls;
+ * the polling itself lives in the video job queue (services/videoJobs.ts).
  */
-export const generateVeoVideo = async (prompt: string, config: VideoConfig, inputImage?: { data: string, mimeType: string }) => {
-  // Ensure key is selected
-  if (window.aistudio && window.aistudio.hasSelectedApiKey) {
-    const hasKey = await window.aistudio.hasSelectedApiKey();
-    if (!hasKey && window.aistudio.openSelectKey) {
-      await window.aistudio.openSelectKey();
-      // Assume success after dialog interaction, proceed with new client
-    }
-  }
+// Starts a render and returns the operation name to poll
+export const startVeoVideo = (prompt: string, config: VideoConfig, frames: { first?: ImageInput, last?: ImageInput } = {}) =>
+  withRetry(signal => getProvider().startVideo(prompt, config, frames, signal), { idempotent: false });
 
-  const ai = getClient(); // Create NEW client to pick up potential new key
-  const model = 'veo-3.1-fast-generate-preview';
+export const getVeoOperation = (operationName: string) => getProvider().getVideoOperation(operationName);
 
-  let operation;
-  
-  const veoConfig = {
-    numberOfVideos: 1,
-    resolution: config.resolution,
-    aspectRatio: config.aspectRatio
-  };
-
-  if (inputImage) {
-    operation = await ai.models.generateVideos({
-      model,
-      prompt,
-      image: {
-        imageBytes: inputImage.data,
-        mimeType: inputImage.mimeType
-      },
-      config: veoConfig
-    });
-  } else {
-    operation = await ai.models.generateVideos({
-      model,
-      prompt,
-      config: veoConfig
-    });
-  }
+export const downloadVeoVideo = (videoUri: string) => withRetry(signal => getProvider().downloadVideo(videoUri, signal));
 
-  // Polling
-  while (!operation.done) {
-    await new Promise(resolve => setTimeout(resolve, 5000));
-    operation = await ai.operations.getVideosOperation({ operation });
-  }
+/**
+ * TTS
+ */
+const DIALOGUE_TIMEOUT_MS = 10 * 60 * 1000;
 
-  const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
-  if (!videoUri) throw new Error("No video generated");
+export const generateSpeech = (text: string, voice = findPersona().voice, threadId: string | null = null) =>
+  metered('speech', 'tts', threadId, signal => getProvider().generateSpeech(text, voice, signal));
 
-  // Fetch the actual bytes
-  const res = await fetch(`${videoUri}&key=${process.env.API_KEY}`);
-  if (!res.ok) throw new Error("Failed to download video bytes");
-  return await res.blob();
-};
+// Lines must be written as "Name: text" using the configured speaker names.
+// Long scripts take a while to voice, so this gets more time than other calls.
+export const generateDialogueSpeech = (dialogue: string, speakers: PodcastSpeaker[]) =>
+  metered('speech', 'tts', null, signal => getProvider().generateDialogueSpeech(dialogue, speakers, signal), DIALOGUE_TIMEOUT_MS);
 
 /**
- * TTS
+ * PODCAST SCRIPT
  */
-export const generateSpeech = async (text: string) => {
-  const ai = getClient();
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash-preview-tts",
-    contents: [{ parts: [{ text }] }],
-    config: {
-      responseModalities: [Modality.AUDIO],
-      speechConfig: {
-        voiceConfig: {
-          prebuiltVoiceConfig: { voiceName: 'Kore' },
-        },
-      },
-    },
-  });
-  return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-};
+export const generatePodcastScript = (source: PodcastSource, speakerNames: [string, string], targetWords: number) =>
+  metered('podcast', 'podcast', null, signal => getProvider().writePodcastScript(source, speakerNames, targetWords, signal));
 
 /**
  * TRANSCRIPTION
  */
-export const transcribeAudio = async (audioBase64: string, mimeType: string) => {
-  const ai = getClient();
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: {
-      parts: [
-        { inlineData: { data: audioBase64, mimeType } },
-        { text: "Transcribe this audio exactly." }
-      ]
-    }
-  });
-  return response.text;
-};
+export const transcribeAudio = (audioBase64: string, mimeType: string) =>
+  metered('transcription', 'transcription', null, signal => getProvider().transcribeAudio(audioBase64, mimeType, signal));
 
 /**
- * LIVE API Helper (Exposed for Component usage)
+ * LIVE API
  */
-export const getLiveClient = () => getClient();
+export const connectLive = (params: LiveConnectParameters) => getProvider().connectLive(params);
@@ -0,0 +1,51 @@
+import { GroundingSupport } from '../types';
+
+/**
+ * CITATIONS
+ * Insert numbered footnote markers (e.g. " [1, 3]") after each grounded segment.
+ * Markers are 1-based indices into the message's grounding chunks, which the Markdown
+ * renderer turns into links. The stored text stays untouched; this runs at render time.
+ */
+export const insertCitations = (text: string, supports?: GroundingSupport[]) => {
+  if (!supports || supports.length === 0) return text;
+
+  const bytes = new TextEncoder().encode(text);
+  const decoder = new TextDecoder();
+  // Segment offsets are in UTF-8 bytes; convert to string indices
+  const toCharIndex = (byteIndex: number) => decoder.decode(bytes.slice(0, byteIndex)).length;
+
+  const markers = new Map<number, Set<number>>();
+  let searchFrom = 0;
+  for (const support of supports) {
+    const indices = support.groundingChunkIndices || [];
+    if (indices.length === 0 || !support.segment) continue;
+
+    let end: number | undefined;
+    const segmentText = support.segment.text;
+    if (segmentText) {
+      // Prefer locating the segment text, which survives whitespace differences between chunks
+      const at = text.indexOf(segmentText, searchFrom);
+      const found = at >= 0 ? at : text.indexOf(segmentText);
+      if (found >= 0) {
+        end = found + segmentText.length;
+        searchFrom = found;
+      }
+    }
+    if (end === undefined && support.segment.endIndex !== undefined) {
+      end = toCharIndex(Math.min(support.segment.endIndex, bytes.length));
+    }
+    if (end === undefined) continue;
+
+    const set = markers.get(end) || new Set<number>();
+    indices.forEach(i => set.add(i + 1));
+    markers.set(end, set);
+  }
+
+  let result = text;
+  // Insert from the end so earlier offsets stay valid
+  for (const end of [...markers.keys()].sort((a, b) => b - a)) {
+    const label = [...markers.get(end)!].sort((a, b) => a - b).join(', ');
+    result = `${result.slice(0, end)} [${label}]${result.slice(end)}`;
+  }
+  return result;
+};
@@ -0,0 +1,42 @@
+import { ImageRef, Message } from '../types';
+
+/**
+ * IMAGE EDIT CHAINS
+ * Every edited image remembers which image it was made from (`Message.editSource`),
+ * so the conversation forms a tree of versions: continuing from the latest result
+ * extends the chain, and picking an older version starts a branch.
+ */
+
+export interface ResolvedImage {
+  data: string;
+  mimeType: string;
+}
+
+export const sameImageRef = (a: ImageRef | null | undefined, b: ImageRef | null | undefined) =>
+  !!a && !!b && a.messageId === b.messageId && a.attachmentIndex === b.attachmentIndex && a.variantIndex === b.variantIndex;
+
+/**
+ * Look up the pixels behind an image reference. Returns undefined if the message is
+ * gone or its payload has not been loaded from storage yet.
+ */
+export const resolveImageRef = (messages: Message[], ref: ImageRef): ResolvedImage | undefined => {
+  const msg = messages.find(m => m.id === ref.messageId);
+  if (!msg) return undefined;
+
+  if (ref.attachmentIndex !== undefined) {
+    const a = msg.attachments?.[ref.attachmentIndex];
+    return a?.data && a.mimeType.startsWith('image/') ? { data: a.data, mimeType: a.mimeType } : undefined;
+  }
+  if (ref.variantIndex !== undefined) {
+    const v = msg.variants?.[ref.variantIndex];
+    return v ? { data: v.data, mimeType: v.mimeType } : undefined;
+  }
+  return msg.image ? { data: msg.image, mimeType: msg.imageMimeType || 'image/png' } : undefined;
+};
+
+// The version an image was edited from, i.e. one step back in its chain
+export const parentImageRef = (messages: Message[], ref: ImageRef): ImageRef | undefined => {
+  if (ref.attachmentIndex !== undefined || ref.variantIndex !== undefined) return undefined;
+  return messages.find(m => m.id === ref.messageId)?.editSource;
+};
+
@@ -0,0 +1,54 @@
+import { StylePreset } from '../types';
+
+/**
+ * STYLE PRESETS
+ * Built-in looks for the Image Studio plus user presets saved in localStorage.
+ * The image model has no dedicated negative-prompt parameter, so both the style and
+ * the things to avoid are folded into the prompt text by `applyStyle`.
+ */
+const STORAGE_KEY = 'nano-banana.stylePresets';
+
+export const BUILT_IN_PRESETS: StylePreset[] = [
+  { id: 'photo', name: 'Photorealistic', prompt: 'photorealistic, natural lighting, sharp focus, high detail', negativePrompt: 'cartoon, illustration, blurry' },
+  { id: 'cinematic', name: 'Cinematic', prompt: 'cinematic still, dramatic lighting, shallow depth of field, film grain', negativePrompt: 'flat lighting, text, watermark' },
+  { id: 'anime', name: 'Anime', prompt: 'anime style, clean line art, vibrant cel shading', negativePrompt: 'photorealistic, 3d render' },
+  { id: 'watercolor', name: 'Watercolor', prompt: 'watercolor painting, soft washes, paper texture' },
+  { id: '3d', name: '3D Render', prompt: '3D render, soft global illumination, octane style, studio backdrop' },
+  { id: 'pixel', name: 'Pixel Art', prompt: '16-bit pixel art, limited palette, crisp pixels', negativePrompt: 'blurry, anti-aliasing, gradients' },
+  { id: 'lineart', name: 'Line Art', prompt: 'minimal black ink line art on white background', negativePrompt: 'color, shading' },
+];
+
+export const loadCustomPresets = (): StylePreset[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as StylePreset[]).map(p => ({ ...p, custom: true })) : [];
+  } catch {
+    return [];
+  }
+};
+
+const storeCustomPresets = (presets: StylePreset[]) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets.map(({ custom: _custom, ...p }) => p)));
+
+export const saveCustomPreset = (preset: Omit<StylePreset, 'id' | 'custom'>) => {
+  const created: StylePreset = { ...preset, id: `custom-${Date.now().toString(36)}`, custom: true };
+  storeCustomPresets([...loadCustomPresets(), created]);
+  return created;
+};
+
+export const deleteCustomPreset = (id: string) => storeCustomPresets(loadCustomPresets().filter(p => p.id !== id));
+
+export const findPreset = (id?: string) =>
+  id ? [...BUILT_IN_PRESETS, ...loadCustomPresets()].find(p => p.id === id) : undefined;
+
+/**
+ * Build the final prompt from the user's text, the chosen style and things to avoid.
+ */
+export const applyStyle = (prompt: string, preset?: StylePreset, negativePrompt?: string) => {
+  const avoid = [preset?.negativePrompt, negativePrompt].filter(Boolean).join(', ');
+  return [
+    prompt,
+    preset ? `Style: ${preset.prompt}.` : '',
+    avoid ? `Avoid: ${avoid}.` : '',
+  ].filter(Boolean).join('\n');
+};
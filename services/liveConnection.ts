@@ -0,0 +1,124 @@
+import { LiveConnectConfig, LiveSendRealtimeInputParameters, LiveSendToolResponseParameters, LiveServerMessage } from '@google/genai';
+import { connectLive } from './geminiService';
+import { LiveSession } from './aiProvider';
+import { modelFor } from './models';
+import { liveTokenUsage, recordUsage } from './usage';
+
+/**
+ * LIVE CONNECTION
+ * Wraps the provider's Live connect so a call survives dropped sockets. Every connection asks
+ * for session resumption; the latest handle is used to reconnect (with backoff) after
+ * an unexpected close, and to hand over to a fresh socket when the server sends
+ * `goAway`. Sliding-window context compression keeps long calls under the limit.
+ * The usage the server reports with each response goes into the usage ledger.
+ */
+export type LiveStatus = 'connecting' | 'live' | 'reconnecting' | 'ended';
+
+const RECONNECT_DELAYS_MS = [500, 1000, 2000, 4000, 8000];
+
+export interface LiveConnectionOptions {
+  config: LiveConnectConfig;
+  // A handler that throws or rejects is treated like a dropped socket
+  onMessage: (msg: LiveServerMessage) => void | Promise<void>;
+  // `reason` is set when the call ended because reconnecting failed
+  onStatus: (status: LiveStatus, reason?: string) => void;
+}
+
+export interface LiveConnection {
+  sendRealtimeInput: (params: LiveSendRealtimeInputParameters) => void;
+  sendToolResponse: (params: LiveSendToolResponseParameters) => void;
+  close: () => void; // safe to call more than once
+}
+
+export const createLiveConnection = ({ config, onMessage, onStatus }: LiveConnectionOptions): LiveConnection => {
+  let session: LiveSession | null = null;
+  let handle: string | undefined;
+  let closed = false;
+  let attempt = 0;
+  let generation = 0; // callbacks from replaced sockets are ignored
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const scheduleReconnect = (reason: string) => {
+    if (closed || retryTimer !== undefined) return;
+    session = null;
+    if (attempt >= RECONNECT_DELAYS_MS.length) {
+      closed = true;
+      onStatus('ended', reason);
+      return;
+    }
+    onStatus('reconnecting');
+    retryTimer = setTimeout(() => {
+      retryTimer = undefined;
+      attempt++;
+      open();
+    }, RECONNECT_DELAYS_MS[attempt]);
+  };
+
+  const open = async () => {
+    const id = ++generation;
+    try {
+      const next = await connectLive({
+        model: modelFor('live').id,
+        config: {
+          ...config,
+          sessionResumption: { handle },
+          contextWindowCompression: { slidingWindow: {} },
+        },
+        callbacks: {
+          onmessage: (msg: LiveServerMessage) => {
+            if (id === generation) attempt = 0; // the server is talking to us, so backoff starts over
+            const update = msg.sessionResumptionUpdate;
+            if (update?.resumable && update.newHandle) handle = update.newHandle;
+            // The server is about to drop this socket; move to a new one while it still works
+            if (msg.goAway && id === generation && !closed) open();
+            if (msg.usageMetadata) recordUsage({ ...liveTokenUsage(modelFor('live').id, msg.usageMetadata), threadId: null, kind: 'live' });
+            Promise.resolve()
+              .then(() => onMessage(msg))
+              .catch(e => {
+                console.error("Live message handling failed", e);
+                if (id !== generation) return;
+                // Resume on a fresh socket; the old one's close is then ignored
+                const failed = session;
+                scheduleReconnect('Could not handle a message from the server.');
+                failed?.close();
+              });
+          },
+          onerror: (e) => {
+            console.error("Live API Error", e);
+            if (id === generation) scheduleReconnect('Connection error.');
+          },
+          onclose: (e) => {
+            if (id === generation) scheduleReconnect(e.reason || 'Connection closed.');
+          },
+        },
+      });
+      if (closed || id !== generation) {
+        next.close();
+        return;
+      }
+      const previous = session;
+      session = next;
+      previous?.close();
+      onStatus('live');
+    } catch (e: any) {
+      console.error("Live connect failed", e);
+      if (id === generation) scheduleReconnect(e?.message || 'Could not connect.');
+    }
+  };
+
+  onStatus('connecting');
+  open();
+
+  return {
+    sendRealtimeInput: (params) => session?.sendRealtimeInput(params),
+    sendToolResponse: (params) => session?.sendToolResponse(params),
+    close: () => {
+      if (closed) return;
+      closed = true;
+      clearTimeout(retryTimer);
+      session?.close();
+      session = null;
+      onStatus('ended');
+    },
+  };
+};
@@ -0,0 +1,78 @@
+import { AppMode, Message, ToolCallRecord } from '../types';
+import { createThread, saveMessage } from './conversationStore';
+
+/**
+ * LIVE TRANSCRIPTS
+ * The Live API streams transcription in small fragments for both sides of the call.
+ * Fragments are merged into one entry per speaker turn, and when the call ends the
+ * transcript is saved as a chat thread so it can be read back and continued in text.
+ */
+export interface TranscriptEntry {
+  role: 'user' | 'model';
+  text: string;
+  timestamp: number; // when the turn started
+  complete?: boolean; // the model finished (or was interrupted); the next fragment starts a new entry
+  toolCalls?: ToolCallRecord[];
+}
+
+export interface CallRecording {
+  data: string; // base64
+  mimeType: string;
+}
+
+export const appendTranscript = (entries: TranscriptEntry[], role: TranscriptEntry['role'], text: string): TranscriptEntry[] => {
+  const last = entries[entries.length - 1];
+  if (last && last.role === role && !last.complete) {
+    return [...entries.slice(0, -1), { ...last, text: last.text + text }];
+  }
+  return [...entries, { role, text, timestamp: Date.now() }];
+};
+
+export const completeTurn = (entries: TranscriptEntry[]): TranscriptEntry[] => {
+  const last = entries[entries.length - 1];
+  return last && !last.complete ? [...entries.slice(0, -1), { ...last, complete: true }] : entries;
+};
+
+// Tool calls get their own entry so they show up where they happened in the call
+export const appendToolCalls = (entries: TranscriptEntry[], records: ToolCallRecord[]): TranscriptEntry[] => [
+  ...completeTurn(entries),
+  { role: 'model', text: '', timestamp: Date.now(), complete: true, toolCalls: records },
+];
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+/**
+ * Save a finished call as a chat thread and return its id. The first message describes
+ * the call and carries the recording, if there is one.
+ */
+export const saveLiveTranscript = async (entries: TranscriptEntry[], startedAt: number, recording?: CallRecording, personaId?: string) => {
+  const spoken = entries.filter(e => e.text.trim() || e.toolCalls);
+  const endedAt = Date.now();
+  const thread = await createThread(AppMode.CHAT, `Live call · ${new Date(startedAt).toLocaleString()}`, personaId);
+
+  const header: Message = {
+    id: `live-${startedAt}`,
+    role: 'model',
+    text: `📞 Live call · ${formatDuration(endedAt - startedAt)}${spoken.length === 0 ? ' · nothing was transcribed' : ''}`,
+    audioData: recording?.data,
+    audioMimeType: recording?.mimeType,
+    timestamp: startedAt,
+  };
+  await saveMessage(thread.id, header);
+
+  // Sequential so messages keep their order and the thread's updatedAt ends at the last one
+  for (const [i, entry] of spoken.entries()) {
+    await saveMessage(thread.id, {
+      id: `live-${startedAt}-${i}`,
+      role: entry.role,
+      text: entry.text.trim() || undefined,
+      toolCalls: entry.toolCalls,
+      transcribed: true,
+      timestamp: entry.timestamp,
+    });
+  }
+  return thread.id;
+};
@@ -0,0 +1,227 @@
+/**
+ * MARKDOWN PARSER
+ * A small CommonMark-ish parser producing a plain data tree. Nothing here ever becomes raw
+ * HTML: the renderer turns nodes into React elements, so model output cannot inject markup.
+ * Supports headings, paragraphs, fenced code, lists, quotes, tables, rules, TeX math
+ * ($...$, $$...$$, \(...\), \[...\]) and numeric citation markers like [1] or [2, 3].
+ */
+
+export type MdInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: MdInline[] }
+  | { type: 'link'; href: string; children: MdInline[] }
+  | { type: 'math'; tex: string }
+  | { type: 'cite'; indices: number[] }
+  | { type: 'br' };
+
+export type MdAlign = 'left' | 'center' | 'right' | null;
+
+export type MdBlock =
+  | { type: 'heading'; level: number; children: MdInline[] }
+  | { type: 'paragraph'; children: MdInline[] }
+  | { type: 'code'; lang: string; code: string }
+  | { type: 'math'; tex: string }
+  | { type: 'quote'; children: MdBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MdBlock[][] }
+  | { type: 'table'; align: MdAlign[]; header: MdInline[][]; rows: MdInline[][][] }
+  | { type: 'hr' };
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const HR = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const MATH_OPEN = /^\s*(\$\$|\\\[)/;
+
+const SAFE_URL = /^(https?:|mailto:)/i;
+
+// Also used for links that arrive outside markdown (grounding sources), which imported threads can set to anything
+export const isSafeUrl = (url?: string) => typeof url === 'string' && SAFE_URL.test(url.trim());
+
+const startsBlock = (line: string) =>
+  FENCE.test(line) || HEADING.test(line) || HR.test(line) || QUOTE.test(line) || LIST_ITEM.test(line) || MATH_OPEN.test(line);
+
+const splitRow = (line: string) =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+export const parseMarkdown = (src: string): MdBlock[] => parseBlocks(src.replace(/\r\n?/g, '\n').split('\n'));
+
+const parseBlocks = (lines: string[]): MdBlock[] => {
+  const blocks: MdBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Fenced code (an unterminated fence runs to the end, which keeps streaming output stable)
+    const fence = line.match(FENCE);
+    if (fence) {
+      const marker = fence[1];
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(marker)) code.push(lines[i++]);
+      i++;
+      blocks.push({ type: 'code', lang: fence[2].toLowerCase(), code: code.join('\n') });
+      continue;
+    }
+
+    // Display math
+    const mathOpen = line.match(MATH_OPEN);
+    if (mathOpen) {
+      const close = mathOpen[1] === '$$' ? '$$' : '\\]';
+      const rest = line.trim().slice(2);
+      if (rest.endsWith(close) && rest.length >= close.length) {
+        blocks.push({ type: 'math', tex: rest.slice(0, -close.length).trim() });
+        i++;
+        continue;
+      }
+      const tex: string[] = rest ? [rest] : [];
+      i++;
+      while (i < lines.length && !lines[i].includes(close)) tex.push(lines[i++]);
+      if (i < lines.length) tex.push(lines[i].slice(0, lines[i].indexOf(close)));
+      i++;
+      blocks.push({ type: 'math', tex: tex.join('\n').trim() });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (HR.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) quoted.push(lines[i++].replace(QUOTE, ''));
+      blocks.push({ type: 'quote', children: parseBlocks(quoted) });
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+      const header = splitRow(line);
+      const align: MdAlign[] = splitRow(lines[i + 1]).map(cell => {
+        const left = cell.startsWith(':');
+        const right = cell.endsWith(':');
+        return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+      });
+      const rows: MdInline[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        const cells = splitRow(lines[i++]);
+        rows.push(header.map((_, c) => parseInline(cells[c] || '')));
+      }
+      blocks.push({ type: 'table', align, header: header.map(parseInline), rows });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const indent = item[1].length;
+      const ordered = /\d/.test(item[2]);
+      const items: MdBlock[][] = [];
+      let current: string[] = [];
+
+      while (i < lines.length) {
+        const l = lines[i];
+        const m = l.match(LIST_ITEM);
+        if (m && m[1].length === indent && /\d/.test(m[2]) === ordered) {
+          if (current.length) items.push(parseBlocks(current));
+          current = [m[3]];
+          i++;
+        } else if (l.trim() && (l.match(/^\s*/)![0].length > indent)) {
+          // Continuation or nested list: strip the parent's indentation
+          current.push(l.slice(Math.min(l.match(/^\s*/)![0].length, indent + 2)));
+          i++;
+        } else if (!l.trim() && i + 1 < lines.length && (lines[i + 1].match(/^\s*/)![0].length > indent
+          || (lines[i + 1].match(LIST_ITEM)?.[1].length === indent))) {
+          current.push('');
+          i++;
+        } else {
+          break;
+        }
+      }
+      if (current.length) items.push(parseBlocks(current));
+      blocks.push({ type: 'list', ordered, start: ordered ? parseInt(item[2], 10) : 1, items });
+      continue;
+    }
+
+    // Paragraph: runs until a blank line or the start of another block
+    const para: string[] = [line];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])
+      && !(lines[i].includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1]))) {
+      para.push(lines[i++]);
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(para.join('\n').trim()) });
+  }
+
+  return blocks;
+};
+
+// Order matters: earlier alternatives win at the same position.
+const INLINE = new RegExp([
+  /(`+)([\s\S]*?[^`])\1(?!`)/.source,                            // 1,2 code span
+  /\$\$([\s\S]+?)\$\$/.source,                                    // 3 inline display math
+  /\\\(([\s\S]+?)\\\)/.source,                                    // 4 \( math \)
+  /\$([^\s$](?:[^$\n]*[^\s$])?)\$(?!\d)/.source,                  // 5 $math$ (not "$5 and $10")
+  /\*\*([\s\S]+?)\*\*/.source,                                    // 6 strong
+  /__([\s\S]+?)__/.source,                                        // 7 strong
+  /~~([\s\S]+?)~~/.source,                                        // 8 strikethrough
+  /\*([^\s*](?:[\s\S]*?[^\s*])?)\*/.source,                       // 9 em
+  /(?<![\w])_([^\s_](?:[\s\S]*?[^\s_])?)_(?![\w])/.source,        // 10 em
+  /!?\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/.source,            // 11,12 link (images become links)
+  /\[(\d+(?:\s*,\s*\d+)*)\]/.source,                              // 13 citation marker
+  /(https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"*_])/.source,            // 14 bare URL
+  /(\n)/.source,                                                  // 15 line break
+  /\\([\\`*_{}[\]()#+\-.!$|~])/.source,                           // 16 escaped punctuation
+].join('|'), 'g');
+
+export const parseInline = (text: string): MdInline[] => {
+  const nodes: MdInline[] = [];
+  let last = 0;
+
+  const pushText = (t: string) => {
+    if (!t) return;
+    const prev = nodes[nodes.length - 1];
+    if (prev && prev.type === 'text') prev.text += t;
+    else nodes.push({ type: 'text', text: t });
+  };
+
+  for (const m of text.matchAll(INLINE)) {
+    const at = m.index!;
+    pushText(text.slice(last, at).replace(/\\([\\`*_{}[\]()#+\-.!$|~])/g, '$1'));
+    last = at + m[0].length;
+
+    if (m[2] !== undefined) nodes.push({ type: 'code', text: m[2].replace(/^ (.*) $/, '$1') });
+    else if (m[3] !== undefined) nodes.push({ type: 'math', tex: m[3] });
+    else if (m[4] !== undefined) nodes.push({ type: 'math', tex: m[4] });
+    else if (m[5] !== undefined) nodes.push({ type: 'math', tex: m[5] });
+    else if (m[6] !== undefined || m[7] !== undefined) nodes.push({ type: 'strong', children: parseInline(m[6] ?? m[7]) });
+    else if (m[8] !== undefined) nodes.push({ type: 'del', children: parseInline(m[8]) });
+    else if (m[9] !== undefined || m[10] !== undefined) nodes.push({ type: 'em', children: parseInline(m[9] ?? m[10]) });
+    else if (m[11] !== undefined) {
+      if (isSafeUrl(m[12])) nodes.push({ type: 'link', href: m[12], children: parseInline(m[11]) });
+      else pushText(m[11]);
+    }
+    else if (m[13] !== undefined) nodes.push({ type: 'cite', indices: m[13].split(',').map(n => parseInt(n, 10)) });
+    else if (m[14] !== undefined) nodes.push({ type: 'link', href: m[14], children: [{ type: 'text', text: m[14] }] });
+    else if (m[15] !== undefined) nodes.push({ type: 'br' });
+    else if (m[16] !== undefined) pushText(m[16]);
+  }
+  pushText(text.slice(last).replace(/\\([\\`*_{}[\]()#+\-.!$|~])/g, '$1'));
+  return nodes;
+};
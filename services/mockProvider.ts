@@ -0,0 +1,347 @@
+import { Content, FinishReason, GenerateContentResponse, GenerateVideosOperation, LiveServerMessage, Part } from "@google/genai";
+import { VideoConfig } from "../types";
+import { decode, encode } from "./audioUtils";
+import type { AIProvider, ChatRequest, LiveSession } from "./aiProvider";
+
+/**
+ * MOCK PROVIDER
+ * Answers every request offline. The same input always gives the same output: replies
+ * echo the prompt, images are gradient placeholders, videos are short canvas recordings,
+ * speech is a tone whose length follows the text, and Live calls run a fixed script
+ * (a reply every few seconds of microphone audio, with a tool call every third turn).
+ *
+ * A chat message starting with "calculate " makes the mock call the calculate tool, so
+ * the tool round trip can be exercised too.
+ */
+const PCM_SAMPLE_RATE = 24000; // what the TTS and Live models return
+const MIC_SAMPLE_RATE = 16000; // what the app streams to Live
+const STREAM_DELAY_MS = 40;
+const VIDEO_RENDER_MS = 6000; // how long a mock render stays "in progress"
+const VIDEO_LENGTH_MS = 2000;
+const LIVE_TURN_SECONDS = 4; // microphone audio heard before each scripted reply
+
+// FNV-1a; seeds colours, pitches and ids from the input
+const hash = (text: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+};
+
+const clip = (text: string, max = 80) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+});
+
+const respond = (parts: Part[], extra: Record<string, unknown> = {}) =>
+  Object.assign(new GenerateContentResponse(), {
+    candidates: [{ content: { role: 'model', parts }, finishReason: FinishReason.STOP, index: 0, ...extra }],
+  });
+
+/**
+ * CHAT
+ */
+const chatReply = ({ prompt, files, config, toolTurns = [] }: ChatRequest) => {
+  const toolResults = toolTurns.flatMap(t => t.parts || []).filter(p => p.functionResponse);
+  if (toolResults.length > 0) {
+    return `The tool answered: \`${JSON.stringify(toolResults[toolResults.length - 1].functionResponse!.response)}\``;
+  }
+  const lines = [`**Mock reply** to “${clip(prompt) || '(empty message)'}”.`, ''];
+  if (files.length > 0) lines.push(`Attachments received: ${files.map(f => `${f.name} (${f.mimeType})`).join(', ')}.`, '');
+  lines.push(
+    'This answer comes from the offline mock provider and is the same every time.',
+    '',
+    `- Model tier: ${config.modelTier}`,
+    `- Search: ${config.useSearch ? 'on' : 'off'}, Maps: ${config.useMaps ? 'on' : 'off'}, Thinking: ${config.useThinking ? 'on' : 'off'}`,
+  );
+  return lines.join('\n');
+};
+
+// Scripted function call: "calculate 2 + 2" calls the calculate tool once
+const toolCallFor = ({ prompt, config, toolTurns = [] }: ChatRequest): Part | undefined => {
+  const match = prompt.match(/^calculate\s+(.+)/i);
+  if (!match || toolTurns.length > 0 || config.useSearch || config.useMaps) return undefined;
+  return { functionCall: { id: `mock-call-${hash(prompt)}`, name: 'calculate', args: { expression: match[1] } } };
+};
+
+const groundingFor = ({ prompt, config }: ChatRequest) => {
+  if (!config.useSearch && !config.useMaps) return undefined;
+  return {
+    groundingChunks: [
+      config.useMaps
+        ? { maps: { uri: 'https://maps.google.com/?q=mock', title: 'Mock place' } }
+        : { web: { uri: 'https://example.com/mock-source', title: 'Mock source' } },
+    ],
+    webSearchQueries: config.useSearch ? [clip(prompt, 40)] : undefined,
+  };
+};
+
+async function* streamReply(request: ChatRequest, abortSignal?: AbortSignal) {
+  const call = toolCallFor(request);
+  if (call) {
+    yield respond([call]);
+    return;
+  }
+  if (request.config.useThinking && !request.toolTurns?.length) {
+    await sleep(STREAM_DELAY_MS, abortSignal);
+    yield respond([{ text: `Thinking about “${clip(request.prompt, 40)}” (mock).`, thought: true }]);
+  }
+  const words = chatReply(request).split(/(?<= )/);
+  for (let i = 0; i < words.length; i += 3) {
+    await sleep(STREAM_DELAY_MS, abortSignal);
+    if (abortSignal?.aborted) return;
+    const last = i + 3 >= words.length;
+    const grounding = last ? groundingFor(request) : undefined;
+    yield respond([{ text: words.slice(i, i + 3).join('') }], grounding ? { groundingMetadata: grounding } : {});
+  }
+}
+
+/**
+ * IMAGES
+ */
+const escapeXml = (text: string) => text.replace(/[<>&"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' }[c]!));
+
+const placeholderImage = (label: string, aspectRatio: string, seed: number) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const width = 512;
+  const height = Math.round(width * (h || 1) / (w || 1));
+  const hue = seed % 360;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">` +
+    `<stop offset="0" stop-color="hsl(${hue},70%,55%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},70%,30%)"/>` +
+    `</linearGradient></defs><rect width="100%" height="100%" fill="url(#g)"/>` +
+    `<text x="50%" y="50%" fill="white" font-family="sans-serif" font-size="20" text-anchor="middle">${escapeXml(clip(label, 40))}</text>` +
+    `</svg>`;
+  return { inlineData: { data: encode(new TextEncoder().encode(svg)), mimeType: 'image/svg+xml' } };
+};
+
+/**
+ * VIDEO
+ * Renders finish VIDEO_RENDER_MS after they start. Operations are kept in memory, so a
+ * render that was running before a reload comes back finished with a generic video.
+ */
+const videoRenders = new Map<string, { prompt: string; config: VideoConfig; startedAt: number }>();
+
+const recordPlaceholderVideo = (label: string, aspectRatio: VideoConfig['aspectRatio']) => new Promise<Blob>((resolve, reject) => {
+  if (typeof MediaRecorder === 'undefined') {
+    reject(new Error("This browser can't record the mock provider's placeholder video."));
+    return;
+  }
+  const [width, height] = aspectRatio === '9:16' ? [180, 320] : [320, 180];
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  const recorder = new MediaRecorder(canvas.captureStream(24));
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => chunks.push(e.data);
+  recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }));
+
+  const hue = hash(label) % 360;
+  const started = performance.now();
+  const draw = () => {
+    const progress = Math.min(1, (performance.now() - started) / VIDEO_LENGTH_MS);
+    ctx.fillStyle = `hsl(${hue},60%,30%)`;
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = `hsl(${(hue + 180) % 360},80%,60%)`;
+    ctx.beginPath();
+    ctx.arc(20 + progress * (width - 40), height / 2, 16, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = 'white';
+    ctx.font = '14px sans-serif';
+    ctx.fillText(clip(label, 32), 10, height - 12);
+    // Timers rather than animation frames, which stop in background tabs
+    if (progress < 1) setTimeout(draw, 40);
+    else recorder.stop();
+  };
+  recorder.start();
+  draw();
+});
+
+/**
+ * SPEECH
+ * A hum at a pitch picked from the voice, pulsing like syllables, about as long as
+ * the text would take to say.
+ */
+const synthesizePcm = (text: string, voice: string) => {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  const seconds = Math.min(30, Math.max(0.5, words * 0.3));
+  const pitch = 120 + (hash(voice) % 120);
+  const samples = new Int16Array(Math.round(seconds * PCM_SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / PCM_SAMPLE_RATE;
+    const envelope = Math.abs(Math.sin(Math.PI * 4 * t));
+    samples[i] = Math.round(Math.sin(2 * Math.PI * pitch * t) * envelope * 0.2 * 0x7fff);
+  }
+  return new Uint8Array(samples.buffer);
+};
+
+const concatBytes = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+/**
+ * LIVE
+ */
+const connectMockLive: AIProvider['connectLive'] = async ({ config, callbacks }) => {
+  const voice = config?.speechConfig?.voiceConfig?.prebuiltVoiceConfig?.voiceName || 'Kore';
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  let closed = false;
+  let heardSamples = 0;
+  let turn = 0;
+  let busy = false; // replying or waiting on a tool
+
+  const later = (ms: number, fn: () => void) => {
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      if (!closed) fn();
+    }, ms);
+    timers.add(timer);
+  };
+  const emit = (fields: Partial<LiveServerMessage>) => callbacks.onmessage(Object.assign(new LiveServerMessage(), fields));
+
+  const speak = (text: string) => {
+    const audio = synthesizePcm(text, voice);
+    const chunkBytes = PCM_SAMPLE_RATE; // half a second of 16-bit audio
+    let at = 0;
+    for (let offset = 0; offset < audio.length; offset += chunkBytes, at += 100) {
+      const data = encode(audio.subarray(offset, offset + chunkBytes));
+      later(at, () => emit({ serverContent: { modelTurn: { parts: [{ inlineData: { data, mimeType: `audio/pcm;rate=${PCM_SAMPLE_RATE}` } }] } } }));
+    }
+    later(at, () => emit({ serverContent: { outputTranscription: { text } } }));
+    later(at + 50, () => {
+      emit({ serverContent: { turnComplete: true } });
+      busy = false;
+    });
+  };
+
+  const reply = () => {
+    busy = true;
+    turn++;
+    heardSamples = 0;
+    emit({ serverContent: { inputTranscription: { text: `(mock) Something said in turn ${turn}.` } } });
+    if (turn % 3 === 0) {
+      later(200, () => emit({ toolCall: { functionCalls: [{ id: `mock-live-call-${turn}`, name: 'calculate', args: { expression: `${turn} * 7` } }] } }));
+      return;
+    }
+    later(200, () => speak(`This is scripted reply number ${turn} from the mock provider.`));
+  };
+
+  later(0, () => {
+    emit({ setupComplete: {} });
+    emit({ sessionResumptionUpdate: { newHandle: `mock-handle-${Date.now()}`, resumable: true } });
+  });
+
+  const session: LiveSession = {
+    sendRealtimeInput: ({ media, audio, text }) => {
+      if (closed || busy) return;
+      if (text) {
+        reply();
+        return;
+      }
+      const blob = audio || (media && 'data' in media ? media : undefined);
+      if (!blob?.data || !blob.mimeType?.startsWith('audio/')) return;
+      heardSamples += decode(blob.data).length / 2;
+      if (heardSamples >= LIVE_TURN_SECONDS * MIC_SAMPLE_RATE) reply();
+    },
+    sendToolResponse: ({ functionResponses }) => {
+      if (closed) return;
+      const responses = Array.isArray(functionResponses) ? functionResponses : [functionResponses];
+      const result = responses[0]?.response;
+      later(200, () => speak(`The tool answered ${JSON.stringify(result ?? {})}.`));
+    },
+    close: () => {
+      if (closed) return;
+      closed = true;
+      timers.forEach(clearTimeout);
+      timers.clear();
+      callbacks.onclose?.(new CloseEvent('close', { code: 1000, reason: '' }));
+    },
+  };
+  return session;
+};
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  imageModel: 'mock-image',
+  videoModel: () => 'mock-video',
+
+  streamChat: async (request, abortSignal) => streamReply(request, abortSignal),
+
+  summarize: async (history: Content[], previousSummary?: string) =>
+    ({ value: [previousSummary, `- Mock summary of ${history.length} earlier messages.`].filter(Boolean).join('\n') }),
+
+  uploadFile: async (file, mimeType) => ({
+    fileUri: `mock://files/${hash(`${mimeType}:${file.size}`).toString(16)}`,
+    expiresAt: Date.now() + 48 * 60 * 60 * 1000,
+  }),
+
+  generateImage: async (prompt, config, seed = 0) =>
+    respond([placeholderImage(prompt, config.aspectRatio, hash(prompt) + seed), { text: `Mock image for “${clip(prompt, 40)}”.` }]),
+
+  editImage: async (prompt, source, references) =>
+    respond([placeholderImage(`Edited: ${prompt}`, '1:1', hash(prompt + source.data.slice(0, 64)) + references.length)]),
+
+  startVideo: async (prompt, config) => {
+    const name = `mock-operations/${hash(prompt)}-${videoRenders.size}`;
+    videoRenders.set(name, { prompt, config, startedAt: Date.now() });
+    return name;
+  },
+
+  getVideoOperation: async (operationName) => {
+    const render = videoRenders.get(operationName);
+    const done = !render || Date.now() - render.startedAt >= VIDEO_RENDER_MS;
+    return Object.assign(new GenerateVideosOperation(), {
+      name: operationName,
+      done,
+      response: done ? { generatedVideos: [{ video: { uri: `mock://videos/${operationName}` } }] } : undefined,
+    });
+  },
+
+  downloadVideo: async (videoUri) => {
+    const render = videoRenders.get(videoUri.replace('mock://videos/', ''));
+    return recordPlaceholderVideo(render?.prompt || 'Mock video', render?.config.aspectRatio || '16:9');
+  },
+
+  generateSpeech: async (text, voice) => ({ value: encode(synthesizePcm(text, voice)) }),
+
+  generateDialogueSpeech: async (dialogue, speakers) => ({
+    value: encode(concatBytes(
+      dialogue.split('\n').filter(l => l.trim()).map(line => {
+        const speaker = speakers.find(s => line.startsWith(`${s.name}:`));
+        return synthesizePcm(line, speaker?.voice || speakers[0]?.voice || 'Kore');
+      })
+    )),
+  }),
+
+  writePodcastScript: async (source, speakerNames, targetWords) => {
+    const subject = source.topic || (source.document ? source.document.name : 'our last conversation');
+    const templates = [
+      `Welcome to the show! Today we're talking about ${clip(subject, 60)}.`,
+      `Great to be here. This is a mock script, so I'll keep it short.`,
+      `Every line here is canned, which makes it handy for trying out the studio.`,
+      `And the audio will just be tones, but the timing follows the text.`,
+    ];
+    const count = Math.min(16, Math.max(4, Math.round(targetWords / 40)));
+    return {
+      value: {
+        title: `Mock episode: ${clip(subject, 40)}`,
+        lines: Array.from({ length: count }, (_, i) => ({ speaker: (i % 2) as 0 | 1, text: templates[i % templates.length] })),
+      },
+    };
+  },
+
+  transcribeAudio: async () => ({ value: 'This is a mock transcription.' }),
+
+  connectLive: connectMockLive,
+};
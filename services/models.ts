@@ -0,0 +1,223 @@
+import { ChatConfig, ImageConfig, ModelTier, VideoConfig } from '../types';
+
+/**
+ * MODEL CATALOG
+ * Every model the app can call, with what it supports and what it costs, plus the role
+ * each one plays (the Pro tier of chat, image editing, Live calls, ...). Code asks for
+ * a role rather than naming a model.
+ *
+ * Roles and model details can be overridden without code changes through the
+ * MODEL_OVERRIDES environment variable (see vite.config.ts), a JSON object like
+ * {"roles": {"chat.PRO": "gemini-2.5-pro"}, "models": {"gemini-2.5-pro": {"label": "Pro 2.5 (Smart)"}}}.
+ * A role pointed at a model missing from the catalog borrows the details of the model
+ * it replaces.
+ */
+
+// USD per million tokens, or per output where the model bills that way
+export interface ModelPricing {
+  input: number;
+  output: number; // thinking tokens are billed as output
+  cachedInput?: number;
+  perImage?: Partial<Record<ImageConfig['size'], number>>;
+  perVideoSecond?: number;
+}
+
+export interface ModelInfo {
+  id: string; // API model name
+  label: string;
+  contextWindow: number; // input tokens
+  maxOutputTokens: number;
+  // Absent when the model can't think; `optional` is false when thinking can't be turned off
+  thinking?: { minBudget: number; maxBudget: number; optional: boolean };
+  // `searchWithMaps`: Search and Maps grounding can be used in the same request
+  tools: { functions: boolean; search: boolean; maps: boolean; searchWithMaps: boolean };
+  imageOutput?: boolean;
+  pricing: ModelPricing;
+}
+
+export type ModelRole =
+  | `chat.${ModelTier}`
+  | 'summary'
+  | 'podcast'
+  | 'transcription'
+  | 'image'
+  | 'edit'
+  | 'video.fast'
+  | 'video.quality'
+  | 'tts'
+  | 'live';
+
+const NO_TOOLS = { functions: false, search: false, maps: false, searchWithMaps: false };
+
+export const MODEL_CATALOG: ModelInfo[] = [
+  {
+    id: 'gemini-flash-lite-latest',
+    label: 'Flash-Lite (Fast)',
+    contextWindow: 1_048_576,
+    maxOutputTokens: 65_536,
+    thinking: { minBudget: 512, maxBudget: 24_576, optional: true },
+    tools: { functions: true, search: true, maps: true, searchWithMaps: false },
+    pricing: { input: 0.10, output: 0.40, cachedInput: 0.025 },
+  },
+  {
+    id: 'gemini-2.5-flash',
+    label: 'Flash (Standard)',
+    contextWindow: 1_048_576,
+    maxOutputTokens: 65_536,
+    thinking: { minBudget: 1, maxBudget: 24_576, optional: true },
+    tools: { functions: true, search: true, maps: true, searchWithMaps: false },
+    pricing: { input: 0.30, output: 2.50, cachedInput: 0.075 },
+  },
+  {
+    id: 'gemini-3-pro-preview',
+    label: 'Pro 3 (Smart)',
+    contextWindow: 1_048_576,
+    maxOutputTokens: 65_536,
+    thinking: { minBudget: 128, maxBudget: 32_768, optional: false },
+    tools: { functions: true, search: true, maps: false, searchWithMaps: false }, // no Maps grounding on Gemini 3 yet
+    pricing: { input: 2.00, output: 12.00, cachedInput: 0.20 },
+  },
+  {
+    id: 'gemini-3-pro-image-preview',
+    label: 'Nano Banana Pro',
+    contextWindow: 65_536,
+    maxOutputTokens: 32_768,
+    tools: NO_TOOLS,
+    imageOutput: true,
+    pricing: { input: 2.00, output: 12.00, perImage: { '1K': 0.134, '2K': 0.134, '4K': 0.24 } },
+  },
+  {
+    id: 'gemini-2.5-flash-image',
+    label: 'Nano Banana',
+    contextWindow: 32_768,
+    maxOutputTokens: 32_768,
+    tools: NO_TOOLS,
+    imageOutput: true,
+    pricing: { input: 0.30, output: 2.50, perImage: { '1K': 0.039 } },
+  },
+  {
+    id: 'veo-3.1-fast-generate-preview',
+    label: 'Veo 3.1 Fast',
+    contextWindow: 1_024,
+    maxOutputTokens: 0,
+    tools: NO_TOOLS,
+    pricing: { input: 0, output: 0, perVideoSecond: 0.15 },
+  },
+  {
+    id: 'veo-3.1-generate-preview',
+    label: 'Veo 3.1 (Quality)',
+    contextWindow: 1_024,
+    maxOutputTokens: 0,
+    tools: NO_TOOLS,
+    pricing: { input: 0, output: 0, perVideoSecond: 0.40 },
+  },
+  {
+    id: 'gemini-2.5-flash-preview-tts',
+    label: 'Flash TTS',
+    contextWindow: 8_192,
+    maxOutputTokens: 16_384,
+    tools: NO_TOOLS,
+    pricing: { input: 0.50, output: 10.00 },
+  },
+  {
+    id: 'gemini-2.5-flash-native-audio-preview-09-2025',
+    label: 'Flash Native Audio',
+    contextWindow: 131_072,
+    maxOutputTokens: 8_192,
+    tools: { functions: true, search: true, maps: false, searchWithMaps: false },
+    pricing: { input: 3.00, output: 12.00 },
+  },
+];
+
+const DEFAULT_ROLES: Record<ModelRole, string> = {
+  'chat.FAST': 'gemini-flash-lite-latest',
+  'chat.STANDARD': 'gemini-2.5-flash',
+  'chat.PRO': 'gemini-3-pro-preview',
+  summary: 'gemini-flash-lite-latest', // cheap is enough
+  podcast: 'gemini-2.5-flash',
+  transcription: 'gemini-2.5-flash',
+  image: 'gemini-3-pro-image-preview',
+  edit: 'gemini-2.5-flash-image',
+  'video.fast': 'veo-3.1-fast-generate-preview',
+  'video.quality': 'veo-3.1-generate-preview',
+  tts: 'gemini-2.5-flash-preview-tts',
+  live: 'gemini-2.5-flash-native-audio-preview-09-2025',
+};
+
+interface ModelOverrides {
+  roles?: Partial<Record<ModelRole, string>>;
+  models?: Record<string, Partial<Omit<ModelInfo, 'id'>>>;
+}
+
+const readOverrides = (): ModelOverrides => {
+  const raw = process.env.MODEL_OVERRIDES;
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as ModelOverrides;
+  } catch (e) {
+    console.error("Ignoring MODEL_OVERRIDES, it is not valid JSON", e);
+    return {};
+  }
+};
+
+const overrides = readOverrides();
+const roles: Record<ModelRole, string> = { ...DEFAULT_ROLES, ...overrides.roles };
+const catalog = new Map(MODEL_CATALOG.map(m => [m.id, m]));
+
+export const modelFor = (role: ModelRole): ModelInfo => {
+  const id = roles[role];
+  const base = catalog.get(id) ?? { ...catalog.get(DEFAULT_ROLES[role])!, id, label: id };
+  const patch = overrides.models?.[id];
+  return patch ? { ...base, ...patch, id, tools: { ...base.tools, ...patch.tools } } : base;
+};
+
+// Looks a model up by API name, e.g. to price a response; undefined when it isn't in the catalog
+export const findModel = (id: string): ModelInfo | undefined => {
+  const role = (Object.keys(roles) as ModelRole[]).find(r => roles[r] === id);
+  return role ? modelFor(role) : catalog.get(id);
+};
+
+export const videoModelFor = (model: VideoConfig['model']) => modelFor(`video.${model}`);
+
+/**
+ * CHAT MODELS
+ * One model per tier, in the order the tier selector lists them.
+ */
+export const CHAT_TIERS: ModelTier[] = [ModelTier.FAST, ModelTier.STANDARD, ModelTier.PRO];
+
+export const resolveChatModel = (config: ChatConfig) => modelFor(`chat.${config.modelTier}`);
+
+export const THINKING_BUDGETS = [1024, 4096, 8192, 16384, 24576, 32768];
+
+// The preset budgets a model accepts, for the budget picker
+export const thinkingBudgetOptions = (model: ModelInfo) =>
+  model.thinking ? THINKING_BUDGETS.filter(b => b >= model.thinking!.minBudget && b <= model.thinking!.maxBudget) : [];
+
+// Budget sent with a thinking request: the chosen one, or the most the model allows
+export const thinkingBudgetFor = (config: ChatConfig) => {
+  const thinking = resolveChatModel(config).thinking;
+  return thinking ? config.thinkingBudget ?? thinking.maxBudget : undefined;
+};
+
+/**
+ * Problems with a chat configuration, as messages for the user; empty when it can be sent.
+ * Checks each setting against the model and the combinations the model can't serve.
+ */
+export const validateChatConfig = (config: ChatConfig): string[] => {
+  const model = resolveChatModel(config);
+  const problems: string[] = [];
+  if (config.useThinking) {
+    if (!model.thinking) {
+      problems.push(`${model.label} can't think; pick another model or turn Think off.`);
+    } else if (config.thinkingBudget !== undefined &&
+      (config.thinkingBudget < model.thinking.minBudget || config.thinkingBudget > model.thinking.maxBudget)) {
+      problems.push(`${model.label} takes a thinking budget between ${model.thinking.minBudget} and ${model.thinking.maxBudget} tokens.`);
+    }
+  }
+  if (config.useSearch && !model.tools.search) problems.push(`${model.label} can't search the web.`);
+  if (config.useMaps && !model.tools.maps) problems.push(`${model.label} can't use Google Maps.`);
+  if (config.useSearch && config.useMaps && model.tools.search && model.tools.maps && !model.tools.searchWithMaps) {
+    problems.push(`${model.label} can't ground one answer in both Search and Maps; turn one of them off.`);
+  }
+  return problems;
+};
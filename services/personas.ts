@@ -0,0 +1,86 @@
+import { Persona, ResponseStyle } from '../types';
+
+/**
+ * PERSONAS
+ * Named assistant profiles: system prompt, voice, language and response style.
+ * Built-ins ship with the app; user personas (and edited copies of built-ins) are kept
+ * in localStorage. The same persona drives chat, Live calls and read-aloud, so the
+ * assistant sounds and behaves the same everywhere.
+ */
+const STORAGE_KEY = 'nano-banana.personas';
+const DEFAULT_KEY = 'nano-banana.defaultPersona';
+
+export const DEFAULT_PERSONA_ID = 'nano-banana';
+
+export const VOICES = ['Zephyr', 'Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus'];
+
+export const LANGUAGES: { code: string; label: string }[] = [
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-GB', label: 'English (UK)' },
+  { code: 'hi-IN', label: 'Hindi' },
+  { code: 'es-US', label: 'Spanish' },
+  { code: 'fr-FR', label: 'French' },
+  { code: 'de-DE', label: 'German' },
+  { code: 'ja-JP', label: 'Japanese' },
+  { code: 'pt-BR', label: 'Portuguese (Brazil)' },
+];
+
+const STYLE_INSTRUCTIONS: Record<ResponseStyle, string> = {
+  concise: 'Be concise.',
+  balanced: 'Give complete but focused answers.',
+  detailed: 'Be thorough and explain your reasoning step by step.',
+};
+
+export const BUILT_IN_PERSONAS: Persona[] = [
+  { id: DEFAULT_PERSONA_ID, name: 'Nano-Banana', systemPrompt: 'You are a helpful, witty AI assistant named Nano-Banana.', voice: 'Zephyr', style: 'concise', builtIn: true },
+  { id: 'tutor', name: 'Patient Tutor', systemPrompt: 'You are a patient tutor. Check understanding, use simple examples and ask guiding questions instead of giving everything away.', voice: 'Kore', style: 'detailed', builtIn: true },
+  { id: 'reviewer', name: 'Code Reviewer', systemPrompt: 'You are a senior software engineer reviewing code. Point out bugs, risks and simpler alternatives, and be direct.', voice: 'Charon', style: 'balanced', builtIn: true },
+];
+
+const loadStored = (): Persona[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) as Persona[] : [];
+  } catch {
+    return [];
+  }
+};
+
+// Stored personas override built-ins with the same id
+export const loadPersonas = (): Persona[] => {
+  const stored = loadStored();
+  const builtIns = BUILT_IN_PERSONAS.map(p => ({ ...p, ...stored.find(s => s.id === p.id), builtIn: true }));
+  return [...builtIns, ...stored.filter(s => !BUILT_IN_PERSONAS.some(p => p.id === s.id))];
+};
+
+export const savePersona = (persona: Omit<Persona, 'id'> & { id?: string }): Persona => {
+  const saved: Persona = { ...persona, id: persona.id || `persona-${Date.now().toString(36)}` };
+  const { builtIn: _builtIn, ...record } = saved;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([...loadStored().filter(p => p.id !== saved.id), record]));
+  return saved;
+};
+
+// Deleting a built-in resets it to the shipped version
+export const deletePersona = (id: string) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(loadStored().filter(p => p.id !== id)));
+  if (getDefaultPersonaId() === id && !BUILT_IN_PERSONAS.some(p => p.id === id)) setDefaultPersonaId(DEFAULT_PERSONA_ID);
+};
+
+export const getDefaultPersonaId = () => localStorage.getItem(DEFAULT_KEY) || DEFAULT_PERSONA_ID;
+export const setDefaultPersonaId = (id: string) => localStorage.setItem(DEFAULT_KEY, id);
+
+// Falls back to the default persona for unknown or missing ids
+export const findPersona = (id?: string): Persona => {
+  const personas = loadPersonas();
+  return personas.find(p => p.id === (id || getDefaultPersonaId()))
+    || personas.find(p => p.id === DEFAULT_PERSONA_ID)!;
+};
+
+export const personaInstruction = (persona: Persona) => {
+  const language = LANGUAGES.find(l => l.code === persona.language);
+  return [
+    persona.systemPrompt.trim(),
+    STYLE_INSTRUCTIONS[persona.style],
+    language ? `Always respond in ${language.label}.` : '',
+  ].filter(Boolean).join(' ');
+};
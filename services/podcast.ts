@@ -0,0 +1,71 @@
+import { Message, PodcastScript, PodcastSpeaker } from '../types';
+import { generateDialogueSpeech } from './geminiService';
+import { decode, encode } from './audioUtils';
+import { joinPcm } from './speech';
+
+/**
+ * PODCAST
+ * Two hosts discuss a topic, a document or a chat thread. The script is written first so
+ * the user can edit it and pick voices, then rendered with multi-speaker TTS. Long
+ * scripts are rendered in groups of whole lines and the PCM is joined, like read-aloud.
+ */
+export const DEFAULT_SPEAKERS: [PodcastSpeaker, PodcastSpeaker] = [
+  { name: 'Alex', voice: 'Puck' },
+  { name: 'Sam', voice: 'Kore' },
+];
+
+export const PODCAST_LENGTHS = [
+  { id: 'short', label: 'Short (~2 min)', words: 300 },
+  { id: 'medium', label: 'Medium (~5 min)', words: 750 },
+  { id: 'long', label: 'Long (~10 min)', words: 1500 },
+];
+
+const MAX_RENDER_CHARS = 2500;
+
+export const validateSpeakers = (speakers: PodcastSpeaker[]) => {
+  const names = speakers.map(s => s.name.trim());
+  if (names.some(n => !n)) return 'Both speakers need a name.';
+  if (names[0].toLowerCase() === names[1].toLowerCase()) return 'Speakers need different names.';
+  if (names.some(n => n.includes(':'))) return 'Speaker names cannot contain ":".';
+  return null;
+};
+
+const scriptLines = (script: PodcastScript) =>
+  script.lines
+    .filter(l => l.text.trim())
+    .map(l => `${script.speakers[l.speaker].name.trim()}: ${l.text.trim().replace(/\s+/g, ' ')}`);
+
+// Plain-text flattening of a chat thread for use as source material
+export const conversationText = (messages: Message[]) =>
+  messages
+    .filter(m => m.text && !m.isError)
+    .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.text}`)
+    .join('\n');
+
+// Returns base64 PCM (24 kHz mono) for the whole episode
+export const renderPodcast = async (script: PodcastScript, onProgress?: (done: number, total: number) => void) => {
+  const groups: string[][] = [];
+  for (const line of scriptLines(script)) {
+    const current = groups[groups.length - 1];
+    const size = current ? current.reduce((n, l) => n + l.length, 0) : Infinity;
+    if (size + line.length > MAX_RENDER_CHARS) groups.push([line]);
+    else current.push(line);
+  }
+  if (groups.length === 0) throw new Error("The script is empty.");
+
+  const speakers = script.speakers.map(s => ({ ...s, name: s.name.trim() }));
+  const parts: Uint8Array[] = [];
+  for (let i = 0; i < groups.length; i++) {
+    onProgress?.(i, groups.length);
+    const audio = await generateDialogueSpeech(groups[i].join('\n'), speakers);
+    if (!audio) throw new Error("The speech model returned no audio.");
+    parts.push(decode(audio));
+  }
+  return encode(joinPcm(parts));
+};
+
+export const podcastTranscript = (script: PodcastScript) =>
+  `# ${script.title}\n\n` + script.lines
+    .filter(l => l.text.trim())
+    .map(l => `**${script.speakers[l.speaker].name.trim()}:** ${l.text.trim()}`)
+    .join('\n\n') + '\n';
@@ -0,0 +1,81 @@
+import { Message } from '../types';
+import { generateSpeech } from './geminiService';
+import { decode, encode, pcmToWav } from './audioUtils';
+
+/**
+ * SPEECH (read aloud)
+ * The TTS model returns raw 16-bit mono PCM at 24 kHz, not an encoded file. Long replies
+ * are split at sentence boundaries and synthesized piece by piece; the PCM is joined
+ * and cached on the message so it plays again without another request.
+ */
+export const SPEECH_SAMPLE_RATE = 24000;
+export const SPEECH_MIME_TYPE = `audio/pcm;rate=${SPEECH_SAMPLE_RATE}`;
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+const MAX_CHUNK_CHARS = 1200;
+
+// Markdown syntax reads badly aloud; code blocks are skipped entirely
+export const speakableText = (text: string) => text
+  .replace(/```[\s\S]*?```/g, ' (code omitted) ')
+  .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+  .replace(/[*_`#>|~]+/g, '')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+export const splitForSpeech = (text: string, maxChars = MAX_CHUNK_CHARS): string[] => {
+  const sentences = text.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) || [text];
+  const chunks: string[] = [];
+  let current = '';
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > maxChars) {
+      chunks.push(current.trim());
+      current = '';
+    }
+    // A single run-on sentence longer than the limit is cut at word boundaries
+    let rest = sentence;
+    while (rest.length > maxChars) {
+      const cut = rest.lastIndexOf(' ', maxChars);
+      const at = cut > 0 ? cut : maxChars;
+      chunks.push(rest.slice(0, at).trim());
+      rest = rest.slice(at);
+    }
+    current += rest;
+  }
+  if (current.trim()) chunks.push(current.trim());
+  return chunks;
+};
+
+// Returns base64 PCM for the whole text
+export const synthesizeSpeech = async (
+  text: string,
+  voice: string,
+  threadId: string | null,
+  onProgress?: (done: number, total: number) => void
+) => {
+  const chunks = splitForSpeech(speakableText(text));
+  if (chunks.length === 0) throw new Error("There is nothing to read aloud.");
+  const parts: Uint8Array[] = [];
+  for (let i = 0; i < chunks.length; i++) {
+    onProgress?.(i, chunks.length);
+    const audio = await generateSpeech(chunks[i], voice, threadId);
+    if (!audio) throw new Error("The speech model returned no audio.");
+    parts.push(decode(audio));
+  }
+  return encode(joinPcm(parts));
+};
+
+export const joinPcm = (parts: Uint8Array[]) => {
+  const joined = new Uint8Array(parts.reduce((n, p) => n + p.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    joined.set(part, offset);
+    offset += part.byteLength;
+  }
+  return joined;
+};
+
+// Read-aloud audio, as opposed to a call recording that shares the same field
+export const hasSpeechAudio = (msg: Message) => !!msg.audioData && msg.audioMimeType === SPEECH_MIME_TYPE;
+
+export const speechToWav = (audioData: string) =>
+  new Blob([pcmToWav(decode(audioData), SPEECH_SAMPLE_RATE)], { type: 'audio/wav' });
@@ -0,0 +1,74 @@
+/**
+ * SYNTAX HIGHLIGHTING
+ * A lightweight tokenizer covering the languages models most often answer in.
+ * It does not try to be a full grammar; it only separates comments, strings,
+ * numbers and keywords so code blocks are easier to scan.
+ */
+
+export type TokenType = 'plain' | 'comment' | 'string' | 'number' | 'keyword';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+const KEYWORDS = new Set([
+  // JS / TS
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do', 'else',
+  'enum', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'implements', 'import', 'in',
+  'instanceof', 'interface', 'let', 'new', 'null', 'of', 'private', 'protected', 'public', 'readonly', 'return',
+  'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'type', 'typeof', 'undefined', 'var', 'void',
+  'while', 'yield',
+  // Python
+  'and', 'as', 'def', 'elif', 'except', 'global', 'is', 'lambda', 'None', 'nonlocal', 'not', 'or', 'pass',
+  'raise', 'True', 'False', 'with',
+  // C family / Go / Rust / Java
+  'bool', 'char', 'double', 'float', 'fn', 'func', 'go', 'impl', 'int', 'long', 'match', 'mod', 'mut',
+  'package', 'pub', 'struct', 'trait', 'unsigned', 'use', 'final', 'boolean', 'string',
+  // SQL (matched case-insensitively below)
+  'select', 'insert', 'update', 'where', 'join', 'left', 'right', 'inner', 'outer', 'on', 'group', 'by', 'order',
+  'having', 'limit', 'values', 'into', 'create', 'table', 'drop', 'alter',
+  // Shell
+  'then', 'fi', 'done', 'esac', 'echo',
+]);
+
+const HASH_COMMENT_LANGS = new Set(['py', 'python', 'sh', 'bash', 'shell', 'zsh', 'rb', 'ruby', 'yaml', 'yml', 'toml', 'r', 'perl', 'dockerfile', 'makefile']);
+const SQL_LANGS = new Set(['sql', 'mysql', 'postgres', 'postgresql', 'sqlite']);
+
+const buildPattern = (lang: string) => {
+  const comments = [/\/\*[\s\S]*?(?:\*\/|$)/.source];
+  if (HASH_COMMENT_LANGS.has(lang)) comments.push(/#.*/.source);
+  else comments.push(/\/\/.*/.source);
+  if (SQL_LANGS.has(lang) || lang === 'lua' || lang === 'haskell') comments.push(/--.*/.source);
+
+  return new RegExp([
+    `(${comments.join('|')})`,
+    /("""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$)|"(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?|`(?:\\.|[^`\\])*`?)/.source,
+    /(\b(?:0x[\da-fA-F]+|\d+(?:\.\d+)?(?:e[+-]?\d+)?)\b)/.source,
+    /([A-Za-z_$][\w$]*)/.source,
+  ].join('|'), 'g');
+};
+
+export const tokenize = (code: string, lang: string): Token[] => {
+  const sql = SQL_LANGS.has(lang);
+  const tokens: Token[] = [];
+  let last = 0;
+
+  const push = (type: TokenType, text: string) => {
+    const prev = tokens[tokens.length - 1];
+    if (prev && prev.type === type) prev.text += text;
+    else tokens.push({ type, text });
+  };
+
+  for (const m of code.matchAll(buildPattern(lang))) {
+    if (m.index! > last) push('plain', code.slice(last, m.index));
+    last = m.index! + m[0].length;
+
+    if (m[1] !== undefined) push('comment', m[0]);
+    else if (m[2] !== undefined) push('string', m[0]);
+    else if (m[3] !== undefined) push('number', m[0]);
+    else push(KEYWORDS.has(sql ? m[0].toLowerCase() : m[0]) ? 'keyword' : 'plain', m[0]);
+  }
+  if (last < code.length) push('plain', code.slice(last));
+  return tokens;
+};
@@ -0,0 +1,321 @@
+import { AppMode, GroundingChunk, Message, Thread } from '../types';
+import { getThread, loadMessageBlobs, loadMessages } from './conversationStore';
+import { MdBlock, MdInline, isSafeUrl, parseMarkdown } from './markdown';
+import { insertCitations } from './grounding';
+import { decode, encode } from './audioUtils';
+import { hasSpeechAudio, speechToWav } from './speech';
+import { readAsBase64 } from './attachments';
+import { ZipEntry, createZip } from './zip';
+
+/**
+ * THREAD EXPORT / IMPORT
+ * Three formats: JSON (lossless, and the only one that can be imported back), Markdown
+ * in a zip with media as separate files, and a single self-contained HTML page with
+ * everything inlined as data URIs.
+ */
+export const THREAD_EXPORT_FORMAT = 'nano-banana-thread';
+// Bump when Message or Thread change in a way older files would be misread, and add a migration in parseThreadExport
+export const THREAD_EXPORT_VERSION = 1;
+
+export type ExportedMessage = Omit<Message, 'storedBlobs' | 'isThinking'> & {
+  video?: { data: string; mimeType: string }; // local renders; remote videos keep their videoUri
+};
+
+export interface ThreadExport {
+  format: typeof THREAD_EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  thread: Thread;
+  messages: ExportedMessage[];
+}
+
+export interface ExportedFile {
+  blob: Blob;
+  fileName: string;
+}
+
+// A thread with every payload hydrated; videos are returned as Blobs, not object URLs
+interface FullThread {
+  thread: Thread;
+  messages: (Message & { videoBlob?: Blob })[];
+}
+
+const loadFullThread = async (threadId: string): Promise<FullThread> => {
+  const thread = await getThread(threadId);
+  if (!thread) throw new Error("Conversation not found.");
+  const messages = await Promise.all((await loadMessages(threadId)).map(async (message) => {
+    const full: Message & { videoBlob?: Blob } = message.storedBlobs
+      ? { ...message, ...(await loadMessageBlobs(message.id)), storedBlobs: undefined }
+      : message;
+    if (full.videoUri?.startsWith('blob:')) {
+      full.videoBlob = await fetch(full.videoUri).then(r => r.blob());
+      URL.revokeObjectURL(full.videoUri);
+      full.videoUri = undefined;
+    }
+    return full;
+  }));
+  return { thread, messages };
+};
+
+const fileSlug = (title: string) =>
+  title.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase().slice(0, 60) || 'conversation';
+
+const EXTENSIONS: Record<string, string> = { jpeg: 'jpg', 'svg+xml': 'svg', quicktime: 'mov', plain: 'txt', markdown: 'md', mpeg: 'mp3' };
+
+const extensionFor = (mimeType: string) => {
+  const subtype = mimeType.split(';')[0].split('/')[1] || 'bin';
+  return EXTENSIONS[subtype] || subtype;
+};
+
+const speaker = (msg: Message) => msg.role === 'user' ? 'You' : 'Nano-Banana';
+
+/**
+ * JSON
+ */
+export const exportThreadJson = async (threadId: string): Promise<ExportedFile> => {
+  const { thread, messages } = await loadFullThread(threadId);
+  const exported: ThreadExport = {
+    format: THREAD_EXPORT_FORMAT,
+    version: THREAD_EXPORT_VERSION,
+    exportedAt: Date.now(),
+    thread,
+    messages: await Promise.all(messages.map(async ({ videoBlob, storedBlobs: _storedBlobs, isThinking: _isThinking, ...message }) => ({
+      ...message,
+      video: videoBlob ? { data: await readAsBase64(videoBlob), mimeType: videoBlob.type || 'video/mp4' } : undefined,
+    }))),
+  };
+  return {
+    blob: new Blob([JSON.stringify(exported, null, 2)], { type: 'application/json' }),
+    fileName: `${fileSlug(thread.title)}.json`,
+  };
+};
+
+const BASE64 = /^[A-Za-z0-9+/=]*$/;
+const isBase64 = (value: unknown) => value === undefined || (typeof value === 'string' && BASE64.test(value));
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Media payloads end up in data: URIs, so anything that isn't plain base64 is refused
+const isMedia = (value: unknown) =>
+  isRecord(value) && typeof value.data === 'string' && isBase64(value.data) && typeof value.mimeType === 'string';
+const isAttachment = (value: unknown) =>
+  isRecord(value) && typeof value.name === 'string' && typeof value.mimeType === 'string' && isBase64(value.data);
+
+const hasValidPayloads = (m: unknown) =>
+  isRecord(m) && isBase64(m.image) && isBase64(m.audioData) && (m.video === undefined || isMedia(m.video))
+  && (m.attachments === undefined || (Array.isArray(m.attachments) && m.attachments.every(isAttachment)))
+  && (m.variants === undefined || (Array.isArray(m.variants) && m.variants.every(isMedia)));
+
+// Throws a readable error for anything that is not a thread export this version understands
+export const parseThreadExport = (text: string): { thread: Thread; messages: Message[] } => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (data?.format !== THREAD_EXPORT_FORMAT) throw new Error("This is not a Nano-Banana conversation export.");
+  if (typeof data.version !== 'number' || data.version > THREAD_EXPORT_VERSION) {
+    throw new Error("This export was made by a newer version of the app.");
+  }
+  if (!data.thread || typeof data.thread.title !== 'string' || !Array.isArray(data.messages)) {
+    throw new Error("The export is missing its thread or messages.");
+  }
+  const invalid = data.messages.findIndex((m: any) =>
+    typeof m?.id !== 'string' || (m.role !== 'user' && m.role !== 'model') || typeof m.timestamp !== 'number');
+  if (invalid >= 0) throw new Error(`Message ${invalid + 1} in the export is malformed.`);
+  const corrupt = data.messages.findIndex((m: unknown) => !hasValidPayloads(m));
+  if (corrupt >= 0) throw new Error(`Message ${corrupt + 1} in the export has corrupt media data.`);
+
+  const messages: Message[] = (data.messages as ExportedMessage[]).map(({ video, ...message }) => ({
+    ...message,
+    videoUri: video
+      ? URL.createObjectURL(new Blob([decode(video.data)] as BlobPart[], { type: video.mimeType }))
+      : message.videoUri,
+  }));
+  const thread = data.thread as Thread;
+  return { thread: { ...thread, mode: Object.values(AppMode).includes(thread.mode) ? thread.mode : AppMode.CHAT }, messages };
+};
+
+/**
+ * MARKDOWN (zip)
+ */
+const sourcesMarkdown = (grounding?: GroundingChunk[]) => {
+  const links = (grounding || []).map((chunk, i) => {
+    const source = chunk.web || chunk.maps;
+    if (!source) return null;
+    return isSafeUrl(source.uri) ? `${i + 1}. [${source.title || source.uri}](${source.uri})` : `${i + 1}. ${source.title}`;
+  }).filter(Boolean);
+  return links.length > 0 ? `**Sources**\n\n${links.join('\n')}` : '';
+};
+
+// Attachment names are user-chosen, so every segment is escaped, parentheses included
+// since they would end the Markdown link early
+const linkPath = (path: string) => path.split('/')
+  .map(segment => encodeURIComponent(segment).replace(/[()]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`))
+  .join('/');
+
+export const exportThreadMarkdown = async (threadId: string): Promise<ExportedFile> => {
+  const { thread, messages } = await loadFullThread(threadId);
+  const files: ZipEntry[] = [];
+  const addFile = (name: string, data: Uint8Array) => {
+    files.push({ name: `media/${name}`, data });
+    return linkPath(`media/${name}`);
+  };
+
+  const sections = await Promise.all(messages.map(async (msg) => {
+    const parts: string[] = [`### ${speaker(msg)} · ${new Date(msg.timestamp).toLocaleString()}`];
+    if (msg.text) parts.push(insertCitations(msg.text, msg.groundingSupports));
+    msg.attachments?.forEach((a, i) => {
+      if (!a.data) return parts.push(`📎 ${a.name} _(not included)_`);
+      const path = addFile(`${msg.id}-${i + 1}-${a.name.replace(/[\\/:*?"<>|]+/g, '_')}`, decode(a.data));
+      parts.push(a.mimeType.startsWith('image/') ? `![${a.name}](${path})` : `📎 [${a.name}](${path})`);
+    });
+    if (msg.image) parts.push(`![image](${addFile(`${msg.id}.${extensionFor(msg.imageMimeType || 'image/png')}`, decode(msg.image))})`);
+    msg.variants?.forEach((v, i) => parts.push(`![variant ${i + 1}](${addFile(`${msg.id}-variant-${i + 1}.${extensionFor(v.mimeType)}`, decode(v.data))})`));
+    if (msg.audioData) {
+      const audio = hasSpeechAudio(msg)
+        ? { data: new Uint8Array(await speechToWav(msg.audioData).arrayBuffer()), ext: 'wav' }
+        : { data: decode(msg.audioData), ext: extensionFor(msg.audioMimeType || 'audio/webm') };
+      parts.push(`🔊 [audio](${addFile(`${msg.id}.${audio.ext}`, audio.data)})`);
+    }
+    if (msg.videoBlob) {
+      parts.push(`🎬 [video](${addFile(`${msg.id}.${extensionFor(msg.videoBlob.type || 'video/mp4')}`, new Uint8Array(await msg.videoBlob.arrayBuffer()))})`);
+    } else if (msg.videoUri) {
+      parts.push(`🎬 [video](${msg.videoUri})`);
+    }
+    const sources = sourcesMarkdown(msg.grounding);
+    if (sources) parts.push(sources);
+    return parts.join('\n\n');
+  }));
+
+  const markdown = `# ${thread.title}\n\n_Exported from Nano-Banana on ${new Date().toLocaleString()}_\n\n---\n\n${sections.join('\n\n---\n\n')}\n`;
+  const slug = fileSlug(thread.title);
+  return {
+    blob: createZip([{ name: `${slug}.md`, data: new TextEncoder().encode(markdown) }, ...files]),
+    fileName: `${slug}.zip`,
+  };
+};
+
+/**
+ * HTML (self-contained)
+ * Message text goes through the app's Markdown parser and is serialized with every
+ * string escaped, so model output cannot inject markup into the page.
+ */
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const inlineHtml = (nodes: MdInline[], grounding?: GroundingChunk[]): string => nodes.map(node => {
+  switch (node.type) {
+    case 'text': return escapeHtml(node.text);
+    case 'code': return `<code>${escapeHtml(node.text)}</code>`;
+    case 'strong': return `<strong>${inlineHtml(node.children, grounding)}</strong>`;
+    case 'em': return `<em>${inlineHtml(node.children, grounding)}</em>`;
+    case 'del': return `<del>${inlineHtml(node.children, grounding)}</del>`;
+    case 'link': return isSafeUrl(node.href)
+      ? `<a href="${escapeHtml(node.href)}" target="_blank" rel="noreferrer">${inlineHtml(node.children, grounding)}</a>`
+      : inlineHtml(node.children, grounding);
+    case 'math': return `<code>${escapeHtml(node.tex)}</code>`;
+    case 'cite': return `<sup>[${node.indices.map(i => {
+      const source = grounding?.[i - 1]?.web || grounding?.[i - 1]?.maps;
+      return source && isSafeUrl(source.uri) ? `<a href="${escapeHtml(source.uri)}" target="_blank" rel="noreferrer">${i}</a>` : String(i);
+    }).join(', ')}]</sup>`;
+    case 'br': return '<br>';
+  }
+}).join('');
+
+const blocksHtml = (blocks: MdBlock[], grounding?: GroundingChunk[]): string => blocks.map(block => {
+  switch (block.type) {
+    case 'heading': return `<h${block.level}>${inlineHtml(block.children, grounding)}</h${block.level}>`;
+    case 'paragraph': return `<p>${inlineHtml(block.children, grounding)}</p>`;
+    case 'code': return `<pre><code>${escapeHtml(block.code)}</code></pre>`;
+    case 'math': return `<pre><code>${escapeHtml(block.tex)}</code></pre>`;
+    case 'quote': return `<blockquote>${blocksHtml(block.children, grounding)}</blockquote>`;
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : '';
+      return `<${tag}${start}>${block.items.map(item => `<li>${blocksHtml(item, grounding)}</li>`).join('')}</${tag}>`;
+    }
+    case 'table': {
+      const cell = (tag: string, content: MdInline[], i: number) =>
+        `<${tag}${block.align[i] ? ` style="text-align:${block.align[i]}"` : ''}>${inlineHtml(content, grounding)}</${tag}>`;
+      return `<table><thead><tr>${block.header.map((c, i) => cell('th', c, i)).join('')}</tr></thead>` +
+        `<tbody>${block.rows.map(row => `<tr>${row.map((c, i) => cell('td', c, i)).join('')}</tr>`).join('')}</tbody></table>`;
+    }
+    case 'hr': return '<hr>';
+  }
+}).join('');
+
+// Payloads are checked on import, but never trust them inside an attribute
+const dataUri = (mimeType: string, base64: string) => `data:${escapeHtml(mimeType)};base64,${BASE64.test(base64) ? base64 : ''}`;
+
+const HTML_STYLE = `
+body{margin:0;background:#111827;color:#f3f4f6;font:15px/1.6 system-ui,sans-serif}
+main{max-width:48rem;margin:0 auto;padding:2rem 1rem}
+h1{color:#facc15}
+.msg{margin:1.5rem 0;padding:1rem;border-radius:1rem;background:#1f2937;border:1px solid #374151}
+.user{background:#422006;border-color:#854d0e}
+.meta{font-size:12px;color:#9ca3af;margin-bottom:.5rem}
+img,video{max-width:100%;border-radius:.5rem;display:block;margin:.5rem 0}
+audio{width:100%;margin:.5rem 0}
+a{color:#60a5fa}
+pre{background:#0b1020;padding:.75rem;border-radius:.5rem;overflow-x:auto}
+code{font-family:ui-monospace,monospace;font-size:13px}
+table{border-collapse:collapse}th,td{border:1px solid #4b5563;padding:.25rem .5rem}
+blockquote{border-left:3px solid #4b5563;margin:0;padding-left:1rem;color:#d1d5db}
+.sources{font-size:13px}.sources li{margin:.15rem 0}
+`;
+
+export const exportThreadHtml = async (threadId: string): Promise<ExportedFile> => {
+  const { thread, messages } = await loadFullThread(threadId);
+
+  const sections = await Promise.all(messages.map(async (msg) => {
+    const parts: string[] = [`<div class="meta">${speaker(msg)} · ${escapeHtml(new Date(msg.timestamp).toLocaleString())}</div>`];
+    if (msg.text) parts.push(blocksHtml(parseMarkdown(insertCitations(msg.text, msg.groundingSupports)), msg.grounding));
+    msg.attachments?.forEach(a => {
+      if (a.data && a.mimeType.startsWith('image/')) parts.push(`<img src="${dataUri(a.mimeType, a.data)}" alt="${escapeHtml(a.name)}">`);
+      else parts.push(`<p>📎 ${escapeHtml(a.name)}</p>`);
+    });
+    if (msg.image) parts.push(`<img src="${dataUri(msg.imageMimeType || 'image/png', msg.image)}" alt="generated image">`);
+    msg.variants?.forEach((v, i) => parts.push(`<img src="${dataUri(v.mimeType, v.data)}" alt="variant ${i + 1}">`));
+    if (msg.audioData) {
+      const src = hasSpeechAudio(msg)
+        ? dataUri('audio/wav', await readAsBase64(speechToWav(msg.audioData)))
+        : dataUri(msg.audioMimeType || 'audio/webm', msg.audioData);
+      parts.push(`<audio controls src="${src}"></audio>`);
+    }
+    if (msg.videoBlob) {
+      parts.push(`<video controls src="${dataUri(msg.videoBlob.type || 'video/mp4', encode(new Uint8Array(await msg.videoBlob.arrayBuffer())))}"></video>`);
+    } else if (msg.videoUri && isSafeUrl(msg.videoUri)) {
+      parts.push(`<video controls src="${escapeHtml(msg.videoUri)}"></video>`);
+    }
+    const links = (msg.grounding || []).map((chunk, i) => {
+      const source = chunk.web || chunk.maps;
+      if (!source) return '';
+      return isSafeUrl(source.uri)
+        ? `<li value="${i + 1}"><a href="${escapeHtml(source.uri)}" target="_blank" rel="noreferrer">${escapeHtml(source.title || source.uri)}</a></li>`
+        : `<li value="${i + 1}">${escapeHtml(source.title || '')}</li>`;
+    }).join('');
+    if (links) parts.push(`<ol class="sources">${links}</ol>`);
+    return `<section class="msg ${msg.role}">${parts.join('\n')}</section>`;
+  }));
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(thread.title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(thread.title)}</h1>
+<p class="meta">Exported from Nano-Banana on ${escapeHtml(new Date().toLocaleString())}</p>
+${sections.join('\n')}
+</main>
+</body>
+</html>
+`;
+  return { blob: new Blob([html], { type: 'text/html' }), fileName: `${fileSlug(thread.title)}.html` };
+};
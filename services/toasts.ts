@@ -0,0 +1,64 @@
+/**
+ * TOASTS
+ * Short notices shown in a corner of the screen (components/Toasts.tsx) instead of
+ * blocking `alert`s. They disappear on their own unless `durationMs` is 0. A toast with
+ * actions shows them as buttons; `confirmToast` uses that in place of `confirm`.
+ */
+export type ToastKind = 'info' | 'error';
+
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+export interface Toast {
+  id: number;
+  kind: ToastKind;
+  text: string;
+  actions?: ToastAction[];
+}
+
+const DEFAULT_DURATION_MS = 6000;
+
+let toasts: Toast[] = [];
+let nextId = 1;
+const onDismiss = new Map<number, () => void>(); // for toasts waiting on an answer
+
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach(l => l());
+export const subscribeToasts = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const listToasts = () => toasts;
+
+export const dismissToast = (id: number) => {
+  toasts = toasts.filter(t => t.id !== id);
+  notify();
+  const handler = onDismiss.get(id);
+  onDismiss.delete(id);
+  handler?.();
+};
+
+export const showToast = (text: string, kind: ToastKind = 'info', durationMs = DEFAULT_DURATION_MS, actions?: ToastAction[]) => {
+  const toast = { id: nextId++, kind, text, actions };
+  toasts = [...toasts, toast];
+  notify();
+  if (durationMs > 0) setTimeout(() => dismissToast(toast.id), durationMs);
+  return toast.id;
+};
+
+// Asks a yes/no question without blocking the page; closing the toast counts as no
+export const confirmToast = (text: string, confirmLabel = 'OK') => new Promise<boolean>(resolve => {
+  const answer = (ok: boolean) => {
+    onDismiss.delete(id);
+    dismissToast(id);
+    resolve(ok);
+  };
+  const id = showToast(text, 'info', 0, [
+    { label: confirmLabel, onClick: () => answer(true) },
+    { label: 'Cancel', onClick: () => answer(false) },
+  ]);
+  onDismiss.set(id, () => resolve(false));
+});
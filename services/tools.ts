@@ -0,0 +1,52 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse } from '@google/genai';
+import { ToolCallRecord } from '../types';
+import { BUILT_IN_TOOLS } from './builtinTools';
+
+/**
+ * TOOL REGISTRY
+ * Local functions the model may call, shared by text chat and Live sessions. Each tool
+ * pairs a function declaration (name, description, parameter schema) with the handler
+ * that runs it in the browser. Handlers return plain JSON objects, which are sent back
+ * to the model as the function response.
+ */
+export interface ToolDefinition {
+  declaration: FunctionDeclaration & { name: string };
+  handler: (args: Record<string, any>) => Record<string, unknown> | Promise<Record<string, unknown>>;
+}
+
+// Gemini stops after this many rounds of calls in one reply, to avoid runaway loops
+export const MAX_TOOL_ROUNDS = 5;
+
+const registry = new Map<string, ToolDefinition>(BUILT_IN_TOOLS.map(t => [t.declaration.name, t]));
+
+export const registerTool = (tool: ToolDefinition) => {
+  registry.set(tool.declaration.name, tool);
+  return () => { registry.delete(tool.declaration.name); };
+};
+
+export const getToolDeclarations = () => Array.from(registry.values()).map(t => t.declaration);
+
+/**
+ * Run one function call from the model. Failures are reported to the model as an
+ * `error` field rather than thrown, so it can recover or explain.
+ */
+export const runToolCall = async (call: FunctionCall): Promise<{ record: ToolCallRecord; response: FunctionResponse }> => {
+  const name = call.name || 'unknown';
+  const args = call.args || {};
+  const record: ToolCallRecord = { id: call.id, name, args };
+
+  const tool = registry.get(name);
+  try {
+    if (!tool) throw new Error(`Unknown tool "${name}"`);
+    record.result = await tool.handler(args);
+  } catch (e: any) {
+    record.error = e.message || String(e);
+  }
+
+  return {
+    record,
+    response: { id: call.id, name, response: record.error ? { error: record.error } : record.result },
+  };
+};
+
+export const runToolCalls = (calls: FunctionCall[]) => Promise.all(calls.map(runToolCall));
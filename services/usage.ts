@@ -0,0 +1,282 @@
+import { GenerateContentResponseUsageMetadata, UsageMetadata } from '@google/genai';
+import { ChatConfig, ImageConfig, ModelTier, TokenUsage, VideoConfig } from '../types';
+import { findModel, modelFor, resolveChatModel, thinkingBudgetFor, videoModelFor } from './models';
+import { confirmToast, showToast } from './toasts';
+
+/**
+ * USAGE & COSTS
+ * Token counts come from each response's `usageMetadata`; costs are estimates from the
+ * prices in services/models.ts. Every billed call is added to a ledger in localStorage
+ * (the last LEDGER_DAYS days), which the usage panel totals per day and per thread.
+ * Budget limits are checked before a request goes out.
+ */
+const LEDGER_KEY = 'nano-banana.usage';
+const LIMITS_KEY = 'nano-banana.usageLimits';
+const LEDGER_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type UsageKind = 'chat' | 'image' | 'edit' | 'video' | 'summary' | 'speech' | 'podcast' | 'transcription' | 'live';
+
+export interface UsageEntry extends TokenUsage {
+  at: number;
+  threadId: string | null;
+  kind: UsageKind;
+  images?: number;
+  videoSeconds?: number;
+}
+
+export const EMPTY_USAGE: Omit<TokenUsage, 'model'> = { promptTokens: 0, outputTokens: 0, thinkingTokens: 0, cachedTokens: 0, cost: 0 };
+
+/**
+ * Tokens and estimated cost of one response. Image models bill generated images at a
+ * flat price per image, which replaces the output token price when `images` is set.
+ */
+export const tokenUsage = (
+  modelId: string,
+  metadata: GenerateContentResponseUsageMetadata,
+  images?: { count: number; size: ImageConfig['size'] }
+): TokenUsage => {
+  const promptTokens = metadata.promptTokenCount ?? 0;
+  const cachedTokens = metadata.cachedContentTokenCount ?? 0;
+  const outputTokens = metadata.candidatesTokenCount ?? 0;
+  const thinkingTokens = metadata.thoughtsTokenCount ?? 0;
+  const pricing = findModel(modelId)?.pricing;
+  let cost = 0;
+  if (pricing) {
+    cost = ((promptTokens - cachedTokens) * pricing.input + cachedTokens * (pricing.cachedInput ?? pricing.input)) / 1e6;
+    const imagePrice = images && (pricing.perImage?.[images.size] ?? pricing.perImage?.['1K']);
+    cost += imagePrice !== undefined && images
+      ? images.count * imagePrice + thinkingTokens * pricing.output / 1e6
+      : (outputTokens + thinkingTokens) * pricing.output / 1e6;
+  }
+  return { model: modelId, promptTokens, outputTokens, thinkingTokens, cachedTokens, cost };
+};
+
+// Live sessions report usage with the response count under another name
+export const liveTokenUsage = (modelId: string, metadata: UsageMetadata): TokenUsage => tokenUsage(modelId, {
+  promptTokenCount: metadata.promptTokenCount,
+  cachedContentTokenCount: metadata.cachedContentTokenCount,
+  candidatesTokenCount: metadata.responseTokenCount,
+  thoughtsTokenCount: metadata.thoughtsTokenCount,
+});
+
+// Veo bills per second of video rather than per token
+export const videoUsage = (modelId: string, seconds: number): TokenUsage =>
+  ({ ...EMPTY_USAGE, model: modelId, cost: seconds * (findModel(modelId)?.pricing.perVideoSecond ?? 0) });
+
+export const addUsage = (a: TokenUsage | undefined, b: TokenUsage): TokenUsage => a ? {
+  model: b.model,
+  promptTokens: a.promptTokens + b.promptTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+  thinkingTokens: a.thinkingTokens + b.thinkingTokens,
+  cachedTokens: a.cachedTokens + b.cachedTokens,
+  cost: a.cost + b.cost,
+} : b;
+
+export const formatCost = (cost: number) => cost === 0 ? '$0' : cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+
+export const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+/**
+ * LEDGER
+ */
+const loadLedger = (): UsageEntry[] => {
+  try {
+    return JSON.parse(localStorage.getItem(LEDGER_KEY) || '[]') as UsageEntry[];
+  } catch {
+    return [];
+  }
+};
+
+let ledger = loadLedger();
+
+const listeners = new Set<() => void>();
+export const subscribeUsage = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const persist = () => {
+  localStorage.setItem(LEDGER_KEY, JSON.stringify(ledger));
+  listeners.forEach(l => l());
+};
+
+export const listUsage = () => ledger;
+
+export const recordUsage = (entry: Omit<UsageEntry, 'at'>) => {
+  const cutoff = Date.now() - LEDGER_DAYS * DAY_MS;
+  ledger = [...ledger.filter(e => e.at >= cutoff), { ...entry, at: Date.now() }];
+  persist();
+};
+
+export const clearUsage = () => {
+  ledger = [];
+  persist();
+};
+
+/**
+ * TOTALS
+ */
+export interface UsageTotals extends Omit<TokenUsage, 'model'> {
+  requests: number;
+  images: number;
+  videos: number;
+  videoSeconds: number;
+}
+
+export const totalUsage = (entries: UsageEntry[]): UsageTotals => entries.reduce<UsageTotals>((t, e) => ({
+  requests: t.requests + 1,
+  promptTokens: t.promptTokens + e.promptTokens,
+  outputTokens: t.outputTokens + e.outputTokens,
+  thinkingTokens: t.thinkingTokens + e.thinkingTokens,
+  cachedTokens: t.cachedTokens + e.cachedTokens,
+  cost: t.cost + e.cost,
+  images: t.images + (e.images ?? 0),
+  videos: t.videos + (e.kind === 'video' ? 1 : 0),
+  videoSeconds: t.videoSeconds + (e.videoSeconds ?? 0),
+}), { ...EMPTY_USAGE, requests: 0, images: 0, videos: 0, videoSeconds: 0 });
+
+// Local calendar day, e.g. 2025-11-20
+export const dayKey = (time: number) => {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// Totals per group, most expensive first
+export const groupUsage = (entries: UsageEntry[], keyOf: (e: UsageEntry) => string) => {
+  const groups = new Map<string, UsageEntry[]>();
+  for (const e of entries) groups.set(keyOf(e), [...(groups.get(keyOf(e)) || []), e]);
+  return [...groups.entries()]
+    .map(([key, group]) => ({ key, totals: totalUsage(group) }))
+    .sort((a, b) => b.totals.cost - a.totals.cost);
+};
+
+export const spentToday = () => totalUsage(ledger.filter(e => dayKey(e.at) === dayKey(Date.now()))).cost;
+
+/**
+ * BUDGET LIMITS
+ * A daily budget that either asks for confirmation or refuses once a request would go
+ * over it, and an optional confirmation before any expensive request (Pro chat, Veo,
+ * 4K images) regardless of the budget.
+ */
+export interface UsageLimits {
+  dailyBudget: number | null; // USD
+  onExceed: 'warn' | 'block';
+  confirmExpensive: boolean;
+}
+
+const DEFAULT_LIMITS: UsageLimits = { dailyBudget: null, onExceed: 'warn', confirmExpensive: false };
+
+export const getUsageLimits = (): UsageLimits => {
+  try {
+    return { ...DEFAULT_LIMITS, ...JSON.parse(localStorage.getItem(LIMITS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_LIMITS;
+  }
+};
+
+export const saveUsageLimits = (limits: UsageLimits) => {
+  localStorage.setItem(LIMITS_KEY, JSON.stringify(limits));
+  listeners.forEach(l => l());
+};
+
+export type PlannedRequest =
+  | { kind: 'chat'; config: ChatConfig }
+  | { kind: 'image'; config: ImageConfig }
+  | { kind: 'edit' }
+  | { kind: 'video'; config: VideoConfig }
+  | { kind: 'summary'; promptTokens: number }
+  | { kind: 'speech'; characters: number } // read-aloud and podcast audio
+  | { kind: 'podcast'; sourceCharacters: number; targetWords: number } // writing the script
+  | { kind: 'transcription'; seconds: number }
+  | { kind: 'live' };
+
+// Rough size of a chat turn for estimates; the real history can be far larger or smaller
+const ESTIMATED_PROMPT_TOKENS = 4000;
+const ESTIMATED_OUTPUT_TOKENS = 1000;
+// Audio is billed at 32 tokens per second in both directions; speech runs at about 15 characters a second
+const CHARS_PER_TOKEN = 4;
+const AUDIO_TOKENS_PER_SECOND = 32;
+const SPOKEN_CHARS_PER_SECOND = 15;
+const ESTIMATED_LIVE_MINUTES = 5;
+
+const tokenCost = (pricing: { input: number; output: number }, input: number, output: number) =>
+  (input * pricing.input + output * pricing.output) / 1e6;
+
+// Upper-end guess of what a request will cost, before sending it
+export const estimateCost = (request: PlannedRequest) => {
+  switch (request.kind) {
+    case 'chat': {
+      const { pricing } = resolveChatModel(request.config);
+      const thinking = request.config.useThinking ? thinkingBudgetFor(request.config) ?? 0 : 0;
+      return tokenCost(pricing, ESTIMATED_PROMPT_TOKENS, ESTIMATED_OUTPUT_TOKENS + thinking);
+    }
+    case 'image': {
+      const { pricing } = modelFor('image');
+      return Math.max(1, request.config.count) * (pricing.perImage?.[request.config.size] ?? 0);
+    }
+    case 'edit':
+      return modelFor('edit').pricing.perImage?.['1K'] ?? 0;
+    case 'video':
+      return request.config.count * request.config.durationSeconds * (videoModelFor(request.config.model).pricing.perVideoSecond ?? 0);
+    case 'summary':
+      return tokenCost(modelFor('summary').pricing, request.promptTokens, ESTIMATED_OUTPUT_TOKENS);
+    case 'speech':
+      return tokenCost(modelFor('tts').pricing, request.characters / CHARS_PER_TOKEN,
+        request.characters / SPOKEN_CHARS_PER_SECOND * AUDIO_TOKENS_PER_SECOND);
+    case 'podcast':
+      return tokenCost(modelFor('podcast').pricing, ESTIMATED_PROMPT_TOKENS + request.sourceCharacters / CHARS_PER_TOKEN,
+        ESTIMATED_OUTPUT_TOKENS + request.targetWords * 2);
+    case 'transcription':
+      return tokenCost(modelFor('transcription').pricing, request.seconds * AUDIO_TOKENS_PER_SECOND, request.seconds * SPOKEN_CHARS_PER_SECOND / CHARS_PER_TOKEN);
+    case 'live': {
+      const tokens = ESTIMATED_LIVE_MINUTES * 60 * AUDIO_TOKENS_PER_SECOND;
+      return tokenCost(modelFor('live').pricing, tokens, tokens);
+    }
+  }
+};
+
+const expensiveLabel = (request: PlannedRequest) => {
+  if (request.kind === 'chat' && request.config.modelTier === ModelTier.PRO) return resolveChatModel(request.config).label;
+  if (request.kind === 'image' && request.config.size === '4K') return '4K image';
+  if (request.kind === 'video') return videoModelFor(request.config.model).label;
+  return undefined;
+};
+
+/**
+ * What to do before sending: nothing (null), ask the user with `message`, or refuse
+ * (`block`) and show it.
+ */
+export const checkBudget = (request: PlannedRequest): { message: string; block: boolean } | null => {
+  const limits = getUsageLimits();
+  const estimate = estimateCost(request);
+  if (limits.dailyBudget !== null) {
+    const spent = spentToday();
+    if (spent + estimate > limits.dailyBudget) {
+      const message = `This request (about ${formatCost(estimate)}) would take today's spending from ${formatCost(spent)} ` +
+        `past your ${formatCost(limits.dailyBudget)} daily budget.`;
+      return limits.onExceed === 'block'
+        ? { message: `${message} Raise the budget in the usage panel to send it.`, block: true }
+        : { message: `${message} Send it anyway?`, block: false };
+    }
+  }
+  const label = expensiveLabel(request);
+  if (limits.confirmExpensive && label) {
+    return { message: `${label} requests are expensive; this one costs up to about ${formatCost(estimate)}. Send it?`, block: false };
+  }
+  return null;
+};
+
+/**
+ * `checkBudget` with the question asked in a toast: resolves true when the request may
+ * go out. A refusal is shown as an error toast.
+ */
+export const confirmBudget = async (request: PlannedRequest, confirmLabel = 'Send') => {
+  const budget = checkBudget(request);
+  if (!budget) return true;
+  if (budget.block) {
+    showToast(budget.message, 'error');
+    return false;
+  }
+  return confirmToast(budget.message, confirmLabel);
+};
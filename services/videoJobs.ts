@@ -0,0 +1,200 @@
+import { Message, VideoConfig, VideoJob, VideoJobStatus } from '../types';
+import { downloadVeoVideo, getVeoOperation, startVeoVideo } from './geminiService';
+import { saveMessage } from './conversationStore';
+import { getProvider } from './aiProvider';
+import { recordUsage, videoUsage } from './usage';
+
+/**
+ * VIDEO JOB QUEUE
+ * Veo renders run in the background so the chat stays usable while they take minutes.
+ * Unfinished jobs (and their operation names) are kept in localStorage and
+ * `resumeVideoJobs` picks polling back up after a reload. When a job ends, its result
+ * replaces the placeholder message in the job's thread.
+ */
+const STORAGE_KEY = 'nano-banana.videoJobs';
+const POLL_INTERVAL_MS = 5000;
+export const MAX_WAIT_MS = 15 * 60 * 1000;
+
+const FINAL_STATUSES: VideoJobStatus[] = ['done', 'failed', 'cancelled', 'timeout'];
+export const isJobFinished = (job: VideoJob) => FINAL_STATUSES.includes(job.status);
+
+const loadJobs = (): VideoJob[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) as VideoJob[] : [];
+  } catch {
+    return [];
+  }
+};
+
+let jobs: VideoJob[] = loadJobs();
+const timers = new Map<string, ReturnType<typeof setTimeout>>();
+let resumed = false;
+
+// Only unfinished jobs need to survive a reload; results live in the conversation store
+const persist = () =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs.filter(j => !isJobFinished(j)).map(({ videoUri: _videoUri, ...j }) => j)));
+
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach(l => l());
+export const subscribeVideoJobs = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const listVideoJobs = () => jobs;
+
+const updateJob = (id: string, changes: Partial<VideoJob>) => {
+  jobs = jobs.map(j => j.id === id ? { ...j, ...changes } : j);
+  persist();
+  notify();
+  return jobs.find(j => j.id === id);
+};
+
+/**
+ * The message that replaces a job's placeholder once it has ended.
+ */
+export const jobResultMessage = (job: VideoJob): Message | undefined => {
+  const base = { id: job.messageId, role: 'model' as const, timestamp: job.createdAt };
+  switch (job.status) {
+    case 'done':
+      return { ...base, text: "Here is your generated video using Veo 3.", videoUri: job.videoUri };
+    case 'cancelled':
+      return { ...base, text: '_Video generation cancelled._' };
+    case 'timeout':
+      return { ...base, text: `Error: Video generation did not finish within ${MAX_WAIT_MS / 60000} minutes.`, isError: true };
+    case 'failed':
+      return { ...base, text: `Error: ${job.error || 'Video generation failed.'}`, isError: true };
+    default:
+      return undefined;
+  }
+};
+
+const billJob = (job: VideoJob) => {
+  const usage = videoUsage(getProvider().videoModel(job.config.model), job.config.durationSeconds);
+  recordUsage({ ...usage, threadId: job.threadId, kind: 'video', videoSeconds: job.config.durationSeconds });
+};
+
+// Veo bills every render it accepted, including ones we stopped waiting for (they finish server-side)
+const isBilled = (job: VideoJob) =>
+  job.status === 'done' || (!!job.operationName && (job.status === 'cancelled' || job.status === 'timeout'));
+
+const finishJob = (id: string, changes: Partial<VideoJob>) => {
+  clearTimeout(timers.get(id));
+  timers.delete(id);
+  const job = updateJob(id, { ...changes, finishedAt: Date.now() });
+  if (job && isBilled(job)) billJob(job);
+  const result = job && jobResultMessage(job);
+  if (job?.threadId && result) {
+    saveMessage(job.threadId, result).catch(e => console.error("Failed to save video result", e));
+  }
+};
+
+const schedulePoll = (id: string, delay = POLL_INTERVAL_MS) => {
+  clearTimeout(timers.get(id));
+  timers.set(id, setTimeout(() => pollJob(id), delay));
+};
+
+const pollJob = async (id: string) => {
+  const job = jobs.find(j => j.id === id);
+  if (!job || job.status !== 'running' || !job.operationName) return;
+
+  if (Date.now() - job.createdAt > MAX_WAIT_MS) {
+    finishJob(id, { status: 'timeout' });
+    return;
+  }
+
+  try {
+    const operation = await getVeoOperation(job.operationName);
+    // Cancelled while the request was in flight
+    if (jobs.find(j => j.id === id)?.status !== 'running') return;
+
+    if (!operation.done) {
+      schedulePoll(id);
+      return;
+    }
+    if (operation.error) {
+      finishJob(id, { status: 'failed', error: String(operation.error.message || 'Video generation failed.') });
+      return;
+    }
+    const uri = operation.response?.generatedVideos?.[0]?.video?.uri;
+    if (!uri) {
+      finishJob(id, { status: 'failed', error: 'No video generated' });
+      return;
+    }
+
+    updateJob(id, { status: 'downloading' });
+    const blob = await downloadVeoVideo(uri);
+    if (jobs.find(j => j.id === id)?.status !== 'downloading') return;
+    finishJob(id, { status: 'done', videoUri: URL.createObjectURL(blob) });
+  } catch (e: any) {
+    // Network hiccups shouldn't lose a render that is still going; the timeout bounds retries
+    console.error("Video job poll failed", e);
+    const current = jobs.find(j => j.id === id);
+    if (current?.status === 'downloading') updateJob(id, { status: 'running' });
+    if (current && !isJobFinished(current)) schedulePoll(id);
+  }
+};
+
+export interface VideoJobRequest {
+  threadId: string | null;
+  messageId: string;
+  prompt: string;
+  config: VideoConfig;
+  frames?: { first?: { data: string, mimeType: string }, last?: { data: string, mimeType: string } };
+}
+
+/**
+ * Queue a render and return right away; progress is reported through `subscribeVideoJobs`.
+ */
+export const submitVideoJob = ({ frames, ...request }: VideoJobRequest): VideoJob => {
+  const job: VideoJob = { ...request, id: `video-${request.messageId}`, status: 'starting', createdAt: Date.now() };
+  jobs = [...jobs, job];
+  persist();
+  notify();
+
+  startVeoVideo(request.prompt, request.config, frames)
+    .then(operationName => {
+      const current = jobs.find(j => j.id === job.id);
+      if (current?.status !== 'starting') {
+        // Cancelled while Veo was accepting it; the render goes ahead all the same
+        if (current?.status === 'cancelled') billJob(current);
+        return;
+      }
+      updateJob(job.id, { operationName, status: 'running' });
+      schedulePoll(job.id);
+    })
+    .catch(e => {
+      if (jobs.find(j => j.id === job.id)?.status === 'starting') {
+        finishJob(job.id, { status: 'failed', error: e.message || 'Could not start video generation.' });
+      }
+    });
+  return job;
+};
+
+/**
+ * Stop tracking a job. The Gemini API has no cancel call for Veo operations, so a
+ * render that is already running finishes server-side (and is billed); its result is
+ * just discarded.
+ */
+export const cancelVideoJob = (id: string) => {
+  const job = jobs.find(j => j.id === id);
+  if (job && !isJobFinished(job)) finishJob(id, { status: 'cancelled' });
+};
+
+/**
+ * Continue polling jobs left over from a previous page load. Safe to call more than once.
+ */
+export const resumeVideoJobs = () => {
+  if (resumed) return;
+  resumed = true;
+  for (const job of jobs) {
+    if (job.status === 'starting' || !job.operationName) {
+      // The page went away before Veo answered, so there is nothing to poll
+      finishJob(job.id, { status: 'failed', error: 'Interrupted before the video job was accepted.' });
+    } else if (!isJobFinished(job)) {
+      updateJob(job.id, { status: 'running' });
+      schedulePoll(job.id, 0);
+    }
+  }
+};
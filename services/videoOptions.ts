@@ -0,0 +1,44 @@
+import { VideoConfig } from '../types';
+import { INLINE_LIMIT_BYTES, formatBytes } from './attachments';
+
+/**
+ * VIDEO OPTIONS
+ * Veo rejects some combinations of settings only after the request is made, so they
+ * are checked up front. Attached images act as frames: the first is the start frame,
+ * the second (optional) the end frame. Veo only takes frames as inline bytes, so they
+ * have to fit in the inline budget rather than go through the Files API.
+ */
+export const VIDEO_DURATIONS: VideoConfig['durationSeconds'][] = [4, 6, 8];
+export const MAX_VIDEO_COUNT = 4;
+export const MAX_VIDEO_FRAMES = 2;
+
+export const DEFAULT_VIDEO_CONFIG: VideoConfig = {
+  aspectRatio: '16:9',
+  resolution: '720p',
+  model: 'fast',
+  durationSeconds: 8,
+  count: 1,
+};
+
+/**
+ * Problems with a render request, as messages for the user; empty when it can be sent.
+ */
+export const validateVideoRequest = (config: VideoConfig, frames: { size: number }[]): string[] => {
+  const problems: string[] = [];
+  const frameCount = frames.length;
+  if (config.resolution === '1080p' && config.durationSeconds !== 8) {
+    problems.push('1080p is only available for 8 second videos.');
+  }
+  if (frameCount > MAX_VIDEO_FRAMES) {
+    problems.push(`Attach at most ${MAX_VIDEO_FRAMES} images: a start frame and an end frame.`);
+  } else if (frameCount === MAX_VIDEO_FRAMES && config.durationSeconds !== 8) {
+    problems.push('Start + end frame videos must be 8 seconds long.');
+  }
+  if (frames.reduce((sum, f) => sum + f.size, 0) > INLINE_LIMIT_BYTES) {
+    problems.push(`Frame images must be under ${formatBytes(INLINE_LIMIT_BYTES)} together.`);
+  }
+  if (config.count < 1 || config.count > MAX_VIDEO_COUNT) {
+    problems.push(`Choose between 1 and ${MAX_VIDEO_COUNT} videos.`);
+  }
+  return problems;
+};
@@ -0,0 +1,42 @@
+/**
+ * LIVE VIDEO SOURCES
+ * What the model sees during a Live call: a camera, a shared screen/tab, or nothing.
+ * Video is sent as JPEG stills, so frame rate and size are the bandwidth knobs.
+ */
+export type VideoSource =
+  | { kind: 'none' }
+  | { kind: 'camera'; deviceId?: string }
+  | { kind: 'screen' };
+
+export interface VideoFrameSettings {
+  fps: number;
+  maxWidth: number; // frames are scaled down to this width, keeping the aspect ratio
+}
+
+export const FRAME_RATES = [0.5, 1, 2];
+export const FRAME_WIDTHS = [320, 640, 1024, 1280];
+export const DEFAULT_FRAME_SETTINGS: VideoFrameSettings = { fps: 1, maxWidth: 640 };
+
+export const listCameras = async () =>
+  (await navigator.mediaDevices.enumerateDevices()).filter(d => d.kind === 'videoinput');
+
+// Select values for the source picker
+export const sourceKey = (source: VideoSource) =>
+  source.kind === 'camera' ? `camera:${source.deviceId || ''}` : source.kind;
+
+export const sourceFromKey = (key: string): VideoSource =>
+  key.startsWith('camera:') ? { kind: 'camera', deviceId: key.slice('camera:'.length) || undefined } : { kind: key as 'none' | 'screen' };
+
+/**
+ * Open the stream for a source; null for audio-only. Screen capture asks the user
+ * which screen, window or tab to share.
+ */
+export const openVideoSource = async (source: VideoSource): Promise<MediaStream | null> => {
+  if (source.kind === 'none') return null;
+  if (source.kind === 'screen') {
+    return navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+  }
+  return navigator.mediaDevices.getUserMedia({
+    video: source.deviceId ? { deviceId: { exact: source.deviceId } } : true,
+  });
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import ChatInterface from '../components/ChatInterface';
+import { listUsage } from '../services/usage';
+
+const renderChat = (mode: 'CHAT' | 'IMAGE_GEN' | 'VIDEO_GEN') =>
+  render(<ChatInterface mode={mode} threadId={null} onThreadCreated={() => {}} onOpenThread={() => {}} />);
+
+const send = (placeholder: string, text: string) => {
+  fireEvent.change(screen.getByPlaceholderText(placeholder), { target: { value: text } });
+  fireEvent.click(screen.getByText('🚀'));
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('ChatInterface with the mock provider', () => {
+  it('streams a reply', async () => {
+    renderChat('CHAT');
+    send('Ask me anything...', 'Hello there');
+
+    expect(await screen.findByTitle('Stop generating')).toBeTruthy();
+    expect(await screen.findByText(/same every time/, {}, { timeout: 5000 })).toBeTruthy();
+    await waitFor(() => expect(screen.queryByTitle('Stop generating')).toBeNull());
+    expect(screen.getByText('Hello there')).toBeTruthy();
+  });
+
+  it('keeps the partial reply when stopped', async () => {
+    renderChat('CHAT');
+    send('Ask me anything...', 'Tell me a story');
+
+    await screen.findByText('Mock reply');
+    fireEvent.click(screen.getByTitle('Stop generating'));
+
+    await waitFor(() => expect(screen.queryByTitle('Stop generating')).toBeNull());
+    await act(() => new Promise(resolve => setTimeout(resolve, 300)));
+    expect(screen.getByText('Mock reply')).toBeTruthy();
+    expect(screen.queryByText(/same every time/)).toBeNull();
+  });
+
+  it('runs a tool the model calls and answers with its result', async () => {
+    renderChat('CHAT');
+    send('Ask me anything...', 'calculate 6 * 7');
+
+    expect(await screen.findByText('🔧 calculate')).toBeTruthy();
+    expect(await screen.findByText(/The tool answered/)).toBeTruthy();
+    expect(screen.getByText(/42/)).toBeTruthy();
+  });
+
+  it('generates a batch of image variants', async () => {
+    renderChat('IMAGE_GEN');
+    fireEvent.change(screen.getByTitle('Variants per prompt'), { target: { value: '2' } });
+    send('Describe the image...', 'A banana on the moon');
+
+    expect(await screen.findByAltText('variant 1')).toBeTruthy();
+    expect(screen.getByAltText('variant 2')).toBeTruthy();
+  });
+
+  it('runs a video job until the video is ready', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true, toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date', 'performance'] });
+    renderChat('VIDEO_GEN');
+    send('Describe the video...', 'A banana surfing');
+
+    expect(await screen.findByText(/Rendering your video/)).toBeTruthy();
+    // The mock render takes 6s, polls come every 5s and the placeholder video is 2s long
+    await act(() => vi.advanceTimersByTimeAsync(15000));
+
+    expect(await screen.findByText('Here is your generated video using Veo 3.')).toBeTruthy();
+    expect(document.querySelector('video')).toBeTruthy();
+    expect(listUsage().some(e => e.kind === 'video')).toBe(true);
+  });
+});
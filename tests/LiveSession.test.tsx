@@ -0,0 +1,35 @@
+import React from 'react';
+import { describe, expect, it } from 'vitest';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import LiveSession from '../components/LiveSession';
+import { lastWorkletNode } from './setup';
+
+// Four seconds of 16 kHz microphone audio, the amount the mock waits for before each reply
+const speak = () => act(() => {
+  lastWorkletNode!.port.onmessage!({ data: { pcm: new Int16Array(4 * 16000).buffer, level: 0.2 } });
+});
+
+const pause = (ms: number) => act(() => new Promise(resolve => setTimeout(resolve, ms)));
+
+describe('LiveSession with the mock provider', () => {
+  it('runs the scripted call, including a tool call, and saves the transcript', async () => {
+    render(<LiveSession onOpenThread={() => {}} />);
+    fireEvent.click(screen.getByText('Start Conversation'));
+    expect(await screen.findByText('🟢 Listening')).toBeTruthy();
+
+    for (const turn of [1, 2]) {
+      await speak();
+      expect(await screen.findByText(`(mock) Something said in turn ${turn}.`)).toBeTruthy();
+      expect(await screen.findByText(`This is scripted reply number ${turn} from the mock provider.`, {}, { timeout: 3000 })).toBeTruthy();
+      await pause(100); // the mock ignores the microphone until the turn is complete
+    }
+
+    // Every third turn the mock calls the calculate tool and reads out its result
+    await speak();
+    expect(await screen.findByText('🔧 calculate')).toBeTruthy();
+    expect(await screen.findByText(/The tool answered .*21/, {}, { timeout: 3000 })).toBeTruthy();
+
+    fireEvent.click(screen.getByText('End Call'));
+    expect(await screen.findByText(/Transcript saved/)).toBeTruthy();
+  }, 15000);
+});
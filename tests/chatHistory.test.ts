@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { Content } from '@google/genai';
+import { buildChatHistory, limitInlineData, normalizeTurns } from '../services/chatHistory';
+import { Message } from '../types';
+
+let nextId = 0;
+const message = (role: Message['role'], text: string, extra: Partial<Message> = {}): Message =>
+  ({ id: `m${nextId++}`, role, text, timestamp: nextId, ...extra });
+
+// 400 characters is about 100 tokens
+const long = (label: string) => `${label} ${'x'.repeat(400)}`;
+
+const texts = (contents: Content[]) => contents.map(c => c.parts?.map(p => p.text ?? '[media]').join(' | '));
+
+describe('buildChatHistory', () => {
+  it('keeps the newest turns that fit the budget and drops the rest', () => {
+    const messages = [message('user', long('q1')), message('model', long('a1')), message('user', long('q2')), message('model', long('a2'))];
+    const { contents, dropped } = buildChatHistory(messages, 250);
+
+    expect(texts(contents)).toEqual([long('q2'), long('a2')]);
+    expect(dropped.map(m => m.id)).toEqual([messages[0].id, messages[1].id]);
+  });
+
+  it('always keeps the newest turn, even over budget', () => {
+    const messages = [message('user', long('q1'))];
+    expect(buildChatHistory(messages, 10).contents).toHaveLength(1);
+  });
+
+  it('hands model turns left at the front of the cut to the summary', () => {
+    const messages = [message('user', long('q1')), message('model', long('a1')), message('user', long('q2')), message('model', long('a2'))];
+    const { contents, dropped } = buildChatHistory(messages, 350);
+
+    expect(contents[0].role).toBe('user');
+    expect(texts(contents)).toEqual([long('q2'), long('a2')]);
+    expect(dropped.map(m => m.id)).toEqual([messages[0].id, messages[1].id]);
+  });
+
+  it('leaves out failed requests', () => {
+    const messages = [message('user', 'hi'), message('model', 'Error: boom', { isError: true }), message('user', 'again')];
+    expect(texts(buildChatHistory(messages, 1000).contents)).toEqual(['hi | again']);
+  });
+
+  it('swaps older inline media for a note once the byte budget is spent', () => {
+    const image = 'A'.repeat(4000); // 3000 bytes
+    const messages = [
+      message('user', 'first', { image, imageMimeType: 'image/png' }),
+      message('model', 'ok'),
+      message('user', 'second', { image, imageMimeType: 'image/png' }),
+    ];
+    const { contents } = buildChatHistory(messages, 10000, { inlineBytes: 4000 });
+
+    expect(contents[0].parts?.[0].text).toMatch(/An image from earlier in the conversation was left out/);
+    expect(contents[2].parts?.[0].inlineData?.data).toBe(image);
+  });
+
+  it('sends the chosen batch variant', () => {
+    const variants = [{ data: 'AAAA', mimeType: 'image/png' }, { data: 'BBBB', mimeType: 'image/png' }];
+    const messages = [message('user', 'draw'), message('model', '', { variants })];
+    const { contents } = buildChatHistory(messages, 10000, { chosen: { messageId: messages[1].id, variantIndex: 1 } });
+
+    expect(contents[1].parts?.[0].inlineData?.data).toBe('BBBB');
+    expect(contents[1].parts?.[1].text).toBe('[Variant 2 of 2 generated for this request.]');
+  });
+});
+
+describe('limitInlineData', () => {
+  it('keeps the newest media within the budget', () => {
+    const part = (data: string) => ({ inlineData: { data, mimeType: 'audio/webm' } });
+    const contents: Content[] = [
+      { role: 'user', parts: [part('A'.repeat(400))] },
+      { role: 'user', parts: [part('B'.repeat(400))] },
+    ];
+    const limited = limitInlineData(contents, 300);
+
+    expect(limited[0].parts?.[0].text).toMatch(/An audio clip/);
+    expect(limited[1].parts?.[0].inlineData?.data).toBe('B'.repeat(400));
+  });
+});
+
+describe('normalizeTurns', () => {
+  it('opens with a user turn and merges repeated roles', () => {
+    const contents: Content[] = [
+      { role: 'model', parts: [{ text: 'greeting' }] },
+      { role: 'user', parts: [{ text: 'a' }] },
+      { role: 'user', parts: [{ text: 'b' }] },
+      { role: 'model', parts: [{ text: 'c' }] },
+    ];
+    expect(normalizeTurns(contents)).toEqual([
+      { role: 'user', parts: [{ text: 'a' }, { text: 'b' }] },
+      { role: 'model', parts: [{ text: 'c' }] },
+    ]);
+  });
+
+  it('does not modify its input', () => {
+    const contents: Content[] = [{ role: 'user', parts: [{ text: 'a' }] }, { role: 'user', parts: [{ text: 'b' }] }];
+    normalizeTurns(contents);
+    expect(contents[0].parts).toEqual([{ text: 'a' }]);
+  });
+});
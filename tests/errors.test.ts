@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AIError, toAIError, withRetry } from '../services/errors';
+
+// What the SDK throws: the JSON error body in the message, the HTTP status alongside
+const apiError = (code: number, status: string, message: string, details: object[] = []) =>
+  Object.assign(new Error(`got status: ${code}. ${JSON.stringify({ error: { code, status, message, details } })}`), { status: code });
+
+const retryInfo = (seconds: number) => ({ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: `${seconds}s` });
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('toAIError', () => {
+  it('classifies by HTTP status', () => {
+    expect(toAIError(apiError(401, 'UNAUTHENTICATED', 'bad key')).kind).toBe('auth');
+    expect(toAIError(apiError(504, 'DEADLINE_EXCEEDED', 'slow')).kind).toBe('timeout');
+    expect(toAIError(apiError(503, 'UNAVAILABLE', 'overloaded')).kind).toBe('server');
+  });
+
+  it('falls back to the status name when there is no HTTP status', () => {
+    const error = new Error(JSON.stringify({ error: { status: 'RESOURCE_EXHAUSTED', message: 'slow down' } }));
+    expect(toAIError(error).kind).toBe('quota');
+  });
+
+  it("keeps the service's explanation of a rejected request", () => {
+    const error = toAIError(apiError(400, 'INVALID_ARGUMENT', 'Unsupported MIME type'));
+    expect(error.kind).toBe('invalid');
+    expect(error.message).toBe('The request was not accepted: Unsupported MIME type');
+  });
+
+  it('recognises network failures and timeouts from the message', () => {
+    expect(toAIError(new TypeError('Failed to fetch')).kind).toBe('network');
+    expect(toAIError(Object.assign(new Error('signal timed out'), { name: 'TimeoutError' })).kind).toBe('timeout');
+    expect(toAIError(new Error('API key not valid')).kind).toBe('auth');
+  });
+
+  it('passes AIErrors through', () => {
+    const error = new AIError('safety', 'blocked');
+    expect(toAIError(error)).toBe(error);
+  });
+
+  it('reads how long a rate limit asks to wait', () => {
+    expect(toAIError(apiError(429, 'RESOURCE_EXHAUSTED', 'Quota exceeded', [retryInfo(23)])).retryAfterMs).toBe(23000);
+    expect(toAIError(apiError(429, 'RESOURCE_EXHAUSTED', 'Too many requests, try again in 5s')).retryAfterMs).toBe(5000);
+  });
+
+  it('treats only short, stated rate-limit waits as transient', () => {
+    expect(toAIError(apiError(429, 'RESOURCE_EXHAUSTED', 'Quota exceeded', [retryInfo(20)])).transient).toBe(true);
+    expect(toAIError(apiError(429, 'RESOURCE_EXHAUSTED', 'Quota exceeded', [retryInfo(600)])).transient).toBe(false);
+    expect(toAIError(apiError(429, 'RESOURCE_EXHAUSTED', 'Billing required')).transient).toBe(false);
+
+    const daily = apiError(429, 'RESOURCE_EXHAUSTED', 'Quota exceeded', [
+      { '@type': 'type.googleapis.com/google.rpc.QuotaFailure', violations: [{ quotaId: 'GenerateRequestsPerDayPerProject' }] },
+      retryInfo(20),
+    ]);
+    expect(toAIError(daily).retryAfterMs).toBeUndefined();
+    expect(toAIError(daily).transient).toBe(false);
+  });
+});
+
+describe('withRetry', () => {
+  const failing = (errors: unknown[], result = 'done') => {
+    const call = vi.fn(async (_signal: AbortSignal) => {
+      const next = errors.shift();
+      if (next) throw next;
+      return result;
+    });
+    return call;
+  };
+
+  it('retries transient failures with backoff', async () => {
+    vi.useFakeTimers();
+    const call = failing([apiError(503, 'UNAVAILABLE', 'overloaded'), new TypeError('Failed to fetch')]);
+    const result = withRetry(call);
+    await vi.runAllTimersAsync();
+
+    expect(await result).toBe('done');
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry requests the service rejected', async () => {
+    const call = failing([apiError(400, 'INVALID_ARGUMENT', 'bad')]);
+    await expect(withRetry(call)).rejects.toMatchObject({ kind: 'invalid' });
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits as long as a rate limit asks', async () => {
+    vi.useFakeTimers();
+    const call = failing([apiError(429, 'RESOURCE_EXHAUSTED', 'Quota exceeded', [retryInfo(30)])]);
+    const result = withRetry(call);
+
+    await vi.advanceTimersByTimeAsync(29000);
+    expect(call).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(await result).toBe('done');
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not resend a billable call that may have gone through', async () => {
+    const call = failing([new TypeError('Failed to fetch')]);
+    await expect(withRetry(call, { idempotent: false })).rejects.toMatchObject({ kind: 'network' });
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('resends a billable call the service refused', async () => {
+    vi.useFakeTimers();
+    const call = failing([apiError(500, 'INTERNAL', 'oops')]);
+    const result = withRetry(call, { idempotent: false });
+    await vi.runAllTimersAsync();
+
+    expect(await result).toBe('done');
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('aborts an attempt that runs past the timeout', async () => {
+    vi.useFakeTimers();
+    let attemptSignal: AbortSignal | undefined;
+    const call = vi.fn((signal: AbortSignal) => {
+      attemptSignal = signal;
+      return new Promise<string>(() => {});
+    });
+    const result = withRetry(call, { timeoutMs: 1000, idempotent: false });
+    const outcome = expect(result).rejects.toMatchObject({ kind: 'timeout' });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await outcome;
+    expect(attemptSignal?.aborted).toBe(true);
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('hands a user abort back without retrying', async () => {
+    const controller = new AbortController();
+    const abort = new DOMException('Aborted', 'AbortError');
+    const call = vi.fn(async (signal: AbortSignal) => {
+      controller.abort();
+      expect(signal.aborted).toBe(true);
+      throw abort;
+    });
+
+    await expect(withRetry(call, { signal: controller.signal })).rejects.toBe(abort);
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { insertCitations } from '../services/grounding';
+
+const byteLength = (text: string) => new TextEncoder().encode(text).length;
+
+describe('insertCitations', () => {
+  it('leaves text without supports alone', () => {
+    expect(insertCitations('Plain answer.')).toBe('Plain answer.');
+    expect(insertCitations('Plain answer.', [])).toBe('Plain answer.');
+  });
+
+  it('turns UTF-8 byte offsets into string positions', () => {
+    const first = 'Café crème is 3€.';
+    const text = `${first} Tokyo is in Japan.`;
+    // Multi-byte characters make the byte offset larger than the string index
+    expect(byteLength(first)).toBeGreaterThan(first.length);
+
+    const result = insertCitations(text, [
+      { segment: { endIndex: byteLength(first) }, groundingChunkIndices: [0] },
+      { segment: { endIndex: byteLength(text) }, groundingChunkIndices: [1] },
+    ]);
+    expect(result).toBe('Café crème is 3€. [1] Tokyo is in Japan. [2]');
+  });
+
+  it('counts emoji as the four bytes they take', () => {
+    const text = '🍌 Bananas are berries.';
+    const result = insertCitations(text, [{ segment: { endIndex: byteLength(text) }, groundingChunkIndices: [2] }]);
+    expect(result).toBe('🍌 Bananas are berries. [3]');
+  });
+
+  it('prefers the segment text over its offsets', () => {
+    const text = 'Première phrase. Second fact here.';
+    const result = insertCitations(text, [
+      { segment: { startIndex: 0, endIndex: 5, text: 'Second fact here.' }, groundingChunkIndices: [0] },
+    ]);
+    expect(result).toBe('Première phrase. Second fact here. [1]');
+  });
+
+  it('merges markers that end at the same place and clamps offsets past the end', () => {
+    const text = 'One claim.';
+    const result = insertCitations(text, [
+      { segment: { endIndex: 999 }, groundingChunkIndices: [2, 0] },
+      { segment: { endIndex: byteLength(text) }, groundingChunkIndices: [0, 1] },
+    ]);
+    expect(result).toBe('One claim. [1, 2, 3]');
+  });
+
+  it('skips supports without chunks or a segment', () => {
+    const text = 'Nothing cited.';
+    expect(insertCitations(text, [{ segment: { endIndex: 7 }, groundingChunkIndices: [] }, { groundingChunkIndices: [0] }])).toBe(text);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { isSafeUrl, parseInline, parseMarkdown } from '../services/markdown';
+
+describe('isSafeUrl', () => {
+  it('accepts web and mail links', () => {
+    expect(isSafeUrl('https://example.com')).toBe(true);
+    expect(isSafeUrl('HTTP://example.com')).toBe(true);
+    expect(isSafeUrl('  mailto:someone@example.com')).toBe(true);
+  });
+
+  it('refuses script, data and relative urls', () => {
+    expect(isSafeUrl('javascript:alert(1)')).toBe(false);
+    expect(isSafeUrl(' JavaScript:alert(1)')).toBe(false);
+    expect(isSafeUrl('data:text/html;base64,PHNjcmlwdD4=')).toBe(false);
+    expect(isSafeUrl('/relative/path')).toBe(false);
+    expect(isSafeUrl(undefined)).toBe(false);
+  });
+});
+
+describe('parseInline', () => {
+  it('parses emphasis, code and strikethrough', () => {
+    expect(parseInline('**bold** and *em* with `co*de*` ~~gone~~')).toEqual([
+      { type: 'strong', children: [{ type: 'text', text: 'bold' }] },
+      { type: 'text', text: ' and ' },
+      { type: 'em', children: [{ type: 'text', text: 'em' }] },
+      { type: 'text', text: ' with ' },
+      { type: 'code', text: 'co*de*' },
+      { type: 'text', text: ' ' },
+      { type: 'del', children: [{ type: 'text', text: 'gone' }] },
+    ]);
+  });
+
+  it('keeps safe links and drops unsafe ones to their text', () => {
+    expect(parseInline('[docs](https://example.com/a)')).toEqual([
+      { type: 'link', href: 'https://example.com/a', children: [{ type: 'text', text: 'docs' }] },
+    ]);
+    expect(parseInline('[click](javascript:alert(1))')).toEqual([{ type: 'text', text: 'click)' }]);
+  });
+
+  it('links bare urls without trailing punctuation', () => {
+    expect(parseInline('See https://example.com/page.')).toEqual([
+      { type: 'text', text: 'See ' },
+      { type: 'link', href: 'https://example.com/page', children: [{ type: 'text', text: 'https://example.com/page' }] },
+      { type: 'text', text: '.' },
+    ]);
+  });
+
+  it('reads citation markers and math, but not prices', () => {
+    expect(parseInline('True [1, 3]')).toEqual([
+      { type: 'text', text: 'True ' },
+      { type: 'cite', indices: [1, 3] },
+    ]);
+    expect(parseInline('$x^2$ and \\(y\\)')).toEqual([
+      { type: 'math', tex: 'x^2' },
+      { type: 'text', text: ' and ' },
+      { type: 'math', tex: 'y' },
+    ]);
+    expect(parseInline('from $5 to $10')).toEqual([{ type: 'text', text: 'from $5 to $10' }]);
+  });
+
+  it('unescapes markdown punctuation', () => {
+    expect(parseInline('\\*not em\\*')).toEqual([{ type: 'text', text: '*not em*' }]);
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('splits headings, paragraphs, rules and quotes', () => {
+    expect(parseMarkdown('# Title\n\nFirst line\nsecond line\n\n---\n> quoted')).toEqual([
+      { type: 'heading', level: 1, children: [{ type: 'text', text: 'Title' }] },
+      { type: 'paragraph', children: [{ type: 'text', text: 'First line' }, { type: 'br' }, { type: 'text', text: 'second line' }] },
+      { type: 'hr' },
+      { type: 'quote', children: [{ type: 'paragraph', children: [{ type: 'text', text: 'quoted' }] }] },
+    ]);
+  });
+
+  it('keeps fenced code verbatim, even when unterminated', () => {
+    expect(parseMarkdown('```TS\nconst a = **1**;\n```')).toEqual([{ type: 'code', lang: 'ts', code: 'const a = **1**;' }]);
+    expect(parseMarkdown('```\nstill streaming')).toEqual([{ type: 'code', lang: '', code: 'still streaming' }]);
+  });
+
+  it('parses ordered lists with their start and nested lists', () => {
+    const [list] = parseMarkdown('3. three\n4. four\n   - nested');
+    expect(list).toMatchObject({ type: 'list', ordered: true, start: 3 });
+    if (list.type !== 'list') throw new Error('expected a list');
+    expect(list.items).toHaveLength(2);
+    expect(list.items[1][1]).toMatchObject({ type: 'list', ordered: false });
+  });
+
+  it('parses tables with alignment and escaped pipes', () => {
+    expect(parseMarkdown('| a | b |\n|:--|--:|\n| 1 \\| 2 | 3 |')).toEqual([{
+      type: 'table',
+      align: ['left', 'right'],
+      header: [[{ type: 'text', text: 'a' }], [{ type: 'text', text: 'b' }]],
+      rows: [[[{ type: 'text', text: '1 | 2' }], [{ type: 'text', text: '3' }]]],
+    }]);
+  });
+
+  it('parses display math on one or several lines', () => {
+    expect(parseMarkdown('$$E = mc^2$$')).toEqual([{ type: 'math', tex: 'E = mc^2' }]);
+    expect(parseMarkdown('\\[\na + b\n\\]')).toEqual([{ type: 'math', tex: 'a + b' }]);
+  });
+});
@@ -0,0 +1,100 @@
+import 'fake-indexeddb/auto';
+import { afterEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+/**
+ * TEST SETUP
+ * jsdom has no media stack, so the browser APIs the app records and plays audio and
+ * video with are replaced by minimal fakes. They only do what the mock provider and
+ * the components need: streams with tracks, an AudioContext whose nodes connect and
+ * start, a MediaRecorder that hands back one chunk, and a 2D canvas that draws nothing.
+ * `lastWorkletNode` lets a test feed microphone chunks into a running capture.
+ */
+const noop = () => {};
+
+class FakeTrack {
+  kind: string;
+  constructor(kind: string) { this.kind = kind; }
+  stop = noop;
+  addEventListener = noop;
+}
+
+class FakeMediaStream {
+  tracks: FakeTrack[];
+  constructor(kinds: string[] = ['audio']) { this.tracks = kinds.map(k => new FakeTrack(k)); }
+  getTracks = () => this.tracks;
+  getVideoTracks = () => this.tracks.filter(t => t.kind === 'video');
+  getAudioTracks = () => this.tracks.filter(t => t.kind === 'audio');
+}
+
+const fakeNode = () => ({ connect: noop, disconnect: noop });
+
+class FakeAudioContext {
+  sampleRate: number;
+  currentTime = 0;
+  state = 'running';
+  destination = fakeNode();
+  audioWorklet = { addModule: async () => {} };
+  constructor(options?: { sampleRate?: number }) { this.sampleRate = options?.sampleRate ?? 48000; }
+  createMediaStreamSource = fakeNode;
+  createMediaStreamDestination = () => ({ ...fakeNode(), stream: new FakeMediaStream() });
+  createBuffer = (channels: number, length: number, sampleRate: number) => {
+    const data = Array.from({ length: channels }, () => new Float32Array(length));
+    return { duration: length / sampleRate, getChannelData: (c: number) => data[c] };
+  };
+  createBufferSource = () => ({ ...fakeNode(), buffer: null, start: noop, stop: noop, addEventListener: noop });
+  close = async () => { this.state = 'closed'; };
+}
+
+export let lastWorkletNode: { port: { onmessage: ((e: { data: { pcm: ArrayBuffer; level: number } }) => void) | null } } | null = null;
+
+class FakeAudioWorkletNode {
+  port = { onmessage: null };
+  connect = noop;
+  disconnect = noop;
+  constructor() { lastWorkletNode = this; }
+}
+
+class FakeMediaRecorder {
+  state = 'inactive';
+  mimeType = 'audio/webm';
+  ondataavailable: ((e: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+  start() { this.state = 'recording'; }
+  stop() {
+    if (this.state === 'inactive') return;
+    this.state = 'inactive';
+    this.ondataavailable?.({ data: new Blob(['fake media'], { type: this.mimeType }) });
+    this.onstop?.();
+  }
+}
+
+vi.stubGlobal('AudioContext', FakeAudioContext);
+vi.stubGlobal('AudioWorkletNode', FakeAudioWorkletNode);
+vi.stubGlobal('MediaRecorder', FakeMediaRecorder);
+Object.defineProperty(navigator, 'mediaDevices', {
+  value: {
+    getUserMedia: async (constraints: MediaStreamConstraints) => new FakeMediaStream(constraints.video ? ['video'] : ['audio']),
+    getDisplayMedia: async () => new FakeMediaStream(['video']),
+    enumerateDevices: async () => [],
+    addEventListener: noop,
+    removeEventListener: noop,
+  },
+});
+
+// Every canvas call is a no-op; captureStream feeds the fake recorder
+const fake2d = new Proxy({}, { get: () => noop });
+HTMLCanvasElement.prototype.getContext = (() => fake2d) as unknown as HTMLCanvasElement['getContext'];
+Object.assign(HTMLCanvasElement.prototype, { captureStream: () => new FakeMediaStream(['video']) });
+HTMLMediaElement.prototype.play = async () => {};
+HTMLMediaElement.prototype.pause = noop;
+Element.prototype.scrollIntoView = noop;
+
+let nextUrl = 0;
+URL.createObjectURL = () => `blob:fake/${nextUrl++}`;
+URL.revokeObjectURL = noop;
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { THREAD_EXPORT_FORMAT, THREAD_EXPORT_VERSION, parseThreadExport } from '../services/threadExport';
+import { AppMode } from '../types';
+
+const exported = (overrides: Record<string, unknown> = {}, messages: unknown[] = [{ id: 'a', role: 'user', text: 'Hi', timestamp: 1 }]) =>
+  JSON.stringify({
+    format: THREAD_EXPORT_FORMAT,
+    version: THREAD_EXPORT_VERSION,
+    exportedAt: 2,
+    thread: { id: 't', title: 'Saved chat', mode: AppMode.CHAT, createdAt: 1, updatedAt: 2 },
+    messages,
+    ...overrides,
+  });
+
+const withMessage = (extra: Record<string, unknown>) => exported({}, [{ id: 'a', role: 'model', text: 'Here', timestamp: 1, ...extra }]);
+
+describe('parseThreadExport', () => {
+  it('reads a valid export', () => {
+    const { thread, messages } = parseThreadExport(exported());
+    expect(thread.title).toBe('Saved chat');
+    expect(messages).toEqual([{ id: 'a', role: 'user', text: 'Hi', timestamp: 1, videoUri: undefined }]);
+  });
+
+  it('turns embedded videos back into object URLs', () => {
+    const { messages } = parseThreadExport(withMessage({ video: { data: 'AAAA', mimeType: 'video/mp4' } }));
+    expect(messages[0].videoUri).toMatch(/^blob:/);
+  });
+
+  it('falls back to chat for an unknown mode', () => {
+    const text = exported({ thread: { id: 't', title: 'Old', mode: 'SOMETHING_ELSE', createdAt: 1, updatedAt: 2 } });
+    expect(parseThreadExport(text).thread.mode).toBe(AppMode.CHAT);
+  });
+
+  it('rejects files that are not exports', () => {
+    expect(() => parseThreadExport('not json')).toThrow('The file is not valid JSON.');
+    expect(() => parseThreadExport('null')).toThrow('This is not a Nano-Banana conversation export.');
+    expect(() => parseThreadExport(exported({ format: 'other-app' }))).toThrow('This is not a Nano-Banana conversation export.');
+  });
+
+  it('rejects exports from a newer version', () => {
+    expect(() => parseThreadExport(exported({ version: THREAD_EXPORT_VERSION + 1 }))).toThrow('newer version');
+    expect(() => parseThreadExport(exported({ version: '1' }))).toThrow('newer version');
+  });
+
+  it('rejects exports without a thread or messages', () => {
+    expect(() => parseThreadExport(exported({ thread: undefined }))).toThrow('missing its thread or messages');
+    expect(() => parseThreadExport(exported({ thread: { title: 3 } }))).toThrow('missing its thread or messages');
+    expect(() => parseThreadExport(exported({ messages: {} }))).toThrow('missing its thread or messages');
+  });
+
+  it('names the first malformed message', () => {
+    const messages = [
+      { id: 'a', role: 'user', text: 'Hi', timestamp: 1 },
+      { id: 'b', role: 'system', text: 'Nope', timestamp: 2 },
+    ];
+    expect(() => parseThreadExport(exported({}, messages))).toThrow('Message 2 in the export is malformed.');
+    expect(() => parseThreadExport(exported({}, [null]))).toThrow('Message 1 in the export is malformed.');
+    expect(() => parseThreadExport(exported({}, [{ id: 'a', role: 'user', timestamp: '1' }]))).toThrow('malformed');
+  });
+
+  it('rejects media that is not plain base64', () => {
+    const corrupt = 'Message 1 in the export has corrupt media data.';
+    expect(() => parseThreadExport(withMessage({ image: '"><script>' }))).toThrow(corrupt);
+    expect(() => parseThreadExport(withMessage({ audioData: 42 }))).toThrow(corrupt);
+    expect(() => parseThreadExport(withMessage({ video: { data: 'AA AA', mimeType: 'video/mp4' } }))).toThrow(corrupt);
+    expect(() => parseThreadExport(withMessage({ video: { mimeType: 'video/mp4' } }))).toThrow(corrupt);
+    expect(() => parseThreadExport(withMessage({ variants: [{ data: 'AAAA' }] }))).toThrow(corrupt);
+    expect(() => parseThreadExport(withMessage({ variants: 'AAAA' }))).toThrow(corrupt);
+  });
+
+  it('rejects attachments without a name and type', () => {
+    const corrupt = 'Message 1 in the export has corrupt media data.';
+    expect(() => parseThreadExport(withMessage({ attachments: [null] }))).toThrow(corrupt);
+    expect(() => parseThreadExport(withMessage({ attachments: ['AAAA'] }))).toThrow(corrupt);
+    expect(() => parseThreadExport(withMessage({ attachments: [{ name: 'a.png', data: 'AAAA' }] }))).toThrow(corrupt);
+    expect(() => parseThreadExport(withMessage({ attachments: [{ name: 'a.png', mimeType: 'image/png', data: 'javascript:' }] }))).toThrow(corrupt);
+
+    const { messages } = parseThreadExport(withMessage({ attachments: [{ name: 'big.mp4', mimeType: 'video/mp4', size: 9e7 }] }));
+    expect(messages[0].attachments?.[0].name).toBe('big.mp4');
+  });
+});
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { checkBudget, clearUsage, estimateCost, recordUsage, saveUsageLimits, tokenUsage, videoUsage } from '../services/usage';
+import { modelFor, videoModelFor } from '../services/models';
+import { ChatConfig, ImageConfig, ModelTier } from '../types';
+import { DEFAULT_VIDEO_CONFIG } from '../services/videoOptions';
+
+const chat = (overrides: Partial<ChatConfig> = {}): ChatConfig =>
+  ({ useSearch: false, useMaps: false, useThinking: false, modelTier: ModelTier.STANDARD, personaId: 'default', ...overrides });
+
+const image = (overrides: Partial<ImageConfig> = {}): ImageConfig => ({ aspectRatio: '1:1', size: '1K', count: 1, ...overrides });
+
+const spend = (cost: number) =>
+  recordUsage({ model: 'test', promptTokens: 0, outputTokens: 0, thinkingTokens: 0, cachedTokens: 0, cost, threadId: null, kind: 'chat' });
+
+afterEach(() => {
+  clearUsage();
+});
+
+describe('tokenUsage', () => {
+  it('bills cached prompt tokens at the cached price', () => {
+    const model = modelFor(`chat.${ModelTier.STANDARD}`);
+    const usage = tokenUsage(model.id, { promptTokenCount: 1_000_000, cachedContentTokenCount: 400_000, candidatesTokenCount: 0 });
+    expect(usage.cost).toBeCloseTo(0.6 * model.pricing.input + 0.4 * model.pricing.cachedInput!);
+  });
+
+  it('bills generated images per image instead of per output token', () => {
+    const model = modelFor('image');
+    const usage = tokenUsage(model.id, { promptTokenCount: 0, candidatesTokenCount: 5000 }, { count: 2, size: '4K' });
+    expect(usage.cost).toBeCloseTo(2 * model.pricing.perImage!['4K']);
+  });
+
+  it('costs nothing for a model it has no prices for', () => {
+    expect(tokenUsage('unknown-model', { promptTokenCount: 1000, candidatesTokenCount: 1000 }).cost).toBe(0);
+  });
+
+  it('bills video per second', () => {
+    const model = videoModelFor('quality');
+    expect(videoUsage(model.id, 8).cost).toBeCloseTo(8 * model.pricing.perVideoSecond!);
+  });
+});
+
+describe('estimateCost', () => {
+  it('prices images by size and count', () => {
+    const perImage = modelFor('image').pricing.perImage!;
+    expect(estimateCost({ kind: 'image', config: image({ count: 3 }) })).toBeCloseTo(3 * perImage['1K']);
+    expect(estimateCost({ kind: 'image', config: image({ size: '4K' }) })).toBeCloseTo(perImage['4K']);
+  });
+
+  it('prices videos by count and length', () => {
+    const config = { ...DEFAULT_VIDEO_CONFIG, count: 2, durationSeconds: 6 as const };
+    expect(estimateCost({ kind: 'video', config })).toBeCloseTo(12 * videoModelFor(config.model).pricing.perVideoSecond!);
+  });
+
+  it('adds the thinking budget to a chat estimate', () => {
+    const plain = estimateCost({ kind: 'chat', config: chat() });
+    expect(estimateCost({ kind: 'chat', config: chat({ useThinking: true }) })).toBeGreaterThan(plain);
+    expect(estimateCost({ kind: 'chat', config: chat({ modelTier: ModelTier.PRO }) })).toBeGreaterThan(plain);
+  });
+
+  it('grows with the amount of speech, source text and audio', () => {
+    expect(estimateCost({ kind: 'speech', characters: 2000 })).toBeCloseTo(2 * estimateCost({ kind: 'speech', characters: 1000 }));
+    expect(estimateCost({ kind: 'podcast', sourceCharacters: 100_000, targetWords: 900 }))
+      .toBeGreaterThan(estimateCost({ kind: 'podcast', sourceCharacters: 1000, targetWords: 900 }));
+    expect(estimateCost({ kind: 'transcription', seconds: 120 })).toBeCloseTo(2 * estimateCost({ kind: 'transcription', seconds: 60 }));
+    expect(estimateCost({ kind: 'summary', promptTokens: 50_000 })).toBeGreaterThan(estimateCost({ kind: 'summary', promptTokens: 5000 }));
+    expect(estimateCost({ kind: 'live' })).toBeGreaterThan(0);
+  });
+});
+
+describe('checkBudget', () => {
+  it('lets everything through without limits', () => {
+    expect(checkBudget({ kind: 'video', config: DEFAULT_VIDEO_CONFIG })).toBeNull();
+  });
+
+  it('asks before going over the daily budget', () => {
+    saveUsageLimits({ dailyBudget: 1, onExceed: 'warn', confirmExpensive: false });
+    spend(0.99);
+    const budget = checkBudget({ kind: 'image', config: image() });
+    expect(budget).toEqual({ block: false, message: expect.stringMatching(/past your \$1\.00 daily budget\. Send it anyway\?$/) });
+  });
+
+  it('refuses instead when the budget blocks', () => {
+    saveUsageLimits({ dailyBudget: 1, onExceed: 'block', confirmExpensive: false });
+    spend(0.99);
+    expect(checkBudget({ kind: 'image', config: image() })).toMatchObject({ block: true, message: expect.stringMatching(/Raise the budget/) });
+  });
+
+  it('lets requests that stay within the budget through', () => {
+    saveUsageLimits({ dailyBudget: 1, onExceed: 'block', confirmExpensive: false });
+    spend(0.5);
+    expect(checkBudget({ kind: 'image', config: image() })).toBeNull();
+  });
+
+  it('confirms expensive requests when asked to', () => {
+    saveUsageLimits({ dailyBudget: null, onExceed: 'warn', confirmExpensive: true });
+    expect(checkBudget({ kind: 'chat', config: chat({ modelTier: ModelTier.PRO }) })).toMatchObject({ block: false });
+    expect(checkBudget({ kind: 'image', config: image({ size: '4K' }) })?.message).toMatch(/^4K image requests are expensive/);
+    expect(checkBudget({ kind: 'video', config: DEFAULT_VIDEO_CONFIG })).not.toBeNull();
+    expect(checkBudget({ kind: 'chat', config: chat() })).toBeNull();
+    expect(checkBudget({ kind: 'image', config: image() })).toBeNull();
+  });
+});
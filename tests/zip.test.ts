@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from '../services/zip';
+
+const encoder = new TextEncoder();
+
+// jsdom's Blob has no arrayBuffer()
+const read = (entries: { name: string; data: Uint8Array }[], modified?: Date) => new Promise<DataView>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(new DataView(reader.result as ArrayBuffer));
+  reader.onerror = () => reject(reader.error);
+  reader.readAsArrayBuffer(createZip(entries, modified));
+});
+
+const nameAt = (view: DataView, offset: number, length: number) =>
+  new TextDecoder().decode(new Uint8Array(view.buffer, offset, length));
+
+describe('createZip', () => {
+  it('writes the standard CRC-32 of each entry', async () => {
+    // "123456789" is the CRC-32 check value from the spec
+    const view = await read([{ name: 'check.txt', data: encoder.encode('123456789') }]);
+    expect(view.getUint32(14, true)).toBe(0xcbf43926);
+  });
+
+  it('lays out local headers, data, the central directory and its end record', async () => {
+    const entries = [
+      { name: 'notes.md', data: encoder.encode('# Hello') },
+      { name: 'media/ü.bin', data: new Uint8Array([1, 2, 3]) },
+    ];
+    const view = await read(entries, new Date(2024, 4, 17, 13, 45, 30));
+
+    // First local header, then its name and stored (uncompressed) data
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(6, true)).toBe(0x0800); // UTF-8 names
+    expect(view.getUint16(8, true)).toBe(0); // stored
+    expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 15);
+    expect(view.getUint16(12, true)).toBe(((2024 - 1980) << 9) | (5 << 5) | 17);
+    expect(view.getUint32(18, true)).toBe(7);
+    expect(view.getUint32(22, true)).toBe(7);
+    expect(nameAt(view, 30, view.getUint16(26, true))).toBe('notes.md');
+    expect(nameAt(view, 38, 7)).toBe('# Hello');
+
+    // Second local header follows directly; its name is UTF-8
+    const second = 30 + 8 + 7;
+    expect(view.getUint32(second, true)).toBe(0x04034b50);
+    const secondName = view.getUint16(second + 26, true);
+    expect(secondName).toBe(encoder.encode('media/ü.bin').length);
+    expect(nameAt(view, second + 30, secondName)).toBe('media/ü.bin');
+
+    // End record points at the central directory, which points back at each local header
+    const end = view.byteLength - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 8, true)).toBe(2);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const centralStart = view.getUint32(end + 16, true);
+    expect(centralStart).toBe(second + 30 + secondName + 3);
+    expect(view.getUint32(end + 12, true)).toBe(end - centralStart);
+
+    expect(view.getUint32(centralStart, true)).toBe(0x02014b50);
+    expect(view.getUint32(centralStart + 16, true)).toBe(view.getUint32(14, true));
+    expect(view.getUint32(centralStart + 42, true)).toBe(0);
+    const nextCentral = centralStart + 46 + view.getUint16(centralStart + 28, true);
+    expect(view.getUint32(nextCentral, true)).toBe(0x02014b50);
+    expect(view.getUint32(nextCentral + 42, true)).toBe(second);
+  });
+
+  it('writes an empty archive as just the end record', async () => {
+    const view = await read([]);
+    expect(view.byteLength).toBe(22);
+    expect(view.getUint32(0, true)).toBe(0x06054b50);
+    expect(view.getUint16(8, true)).toBe(0);
+  });
+});
@@ -2,7 +2,8 @@ export enum AppMode {
   CHAT = 'CHAT',
   IMAGE_GEN = 'IMAGE_GEN',
   VIDEO_GEN = 'VIDEO_GEN',
-  LIVE = 'LIVE'
+  LIVE = 'LIVE',
+  PODCAST = 'PODCAST'
 }
 
 export enum ModelTier {
@@ -11,53 +12,209 @@ export enum ModelTier {
   PRO = 'PRO' // Pro 3
 }
 
+export interface ReviewSnippet {
+  reviewId?: string;
+  title?: string;
+  review?: string;
+  googleMapsUri?: string;
+  relativePublishTimeDescription?: string;
+  authorAttribution?: { displayName?: string; uri?: string; photoUri?: string };
+}
+
 export interface GroundingChunk {
   web?: { uri: string; title: string };
   maps?: { 
     uri: string; 
     title: string;
-    placeAnswerSources?: { reviewSnippets?: { url: string }[] }[] 
+    placeAnswerSources?: { reviewSnippets?: ReviewSnippet[]; flagContentUri?: string }
   };
 }
 
+export interface GroundingSupport {
+  // Offsets are UTF-8 byte positions into the response text
+  segment?: { startIndex?: number; endIndex?: number; text?: string };
+  groundingChunkIndices?: number[];
+}
+
+export interface Attachment {
+  name: string;
+  mimeType: string;
+  size: number; // bytes
+  data?: string; // base64, for files small enough to send inline
+  fileUri?: string; // Files API URI, for larger files
+  expiresAt?: number; // Files API uploads are deleted after 48h
+}
+
+// Points at an image in the conversation: a message's own image, one of its attachments or a batch variant
+export interface ImageRef {
+  messageId: string;
+  attachmentIndex?: number;
+  variantIndex?: number;
+}
+
+export interface GeneratedImage {
+  data: string; // base64
+  mimeType: string;
+  seed?: number;
+}
+
+// Settings an image was generated with, kept so results can be reproduced
+export interface ImageGenerationInfo {
+  prompt: string;
+  model: string;
+  aspectRatio: ImageConfig['aspectRatio'];
+  size: ImageConfig['size'];
+  stylePreset?: string;
+  negativePrompt?: string;
+  seed?: number; // base seed; variant i uses seed + i
+}
+
+// A function call the model made and what the local handler returned
+export interface ToolCallRecord {
+  id?: string; // set by the Live API, which matches responses by id
+  name: string;
+  args: Record<string, unknown>;
+  result?: Record<string, unknown>;
+  error?: string;
+}
+
+// Tokens a reply used and what they cost; see services/usage.ts
+export interface TokenUsage {
+  model: string;
+  promptTokens: number; // includes cached tokens
+  outputTokens: number;
+  thinkingTokens: number;
+  cachedTokens: number;
+  cost: number; // estimated, in USD
+}
+
+// What kind of failure an error message reports (see services/errors.ts)
+export type ErrorKind = 'auth' | 'quota' | 'safety' | 'invalid' | 'network' | 'timeout' | 'server' | 'unknown';
+
 export interface Message {
   id: string;
   role: 'user' | 'model';
   text?: string;
   image?: string; // base64
+  imageMimeType?: string;
+  attachments?: Attachment[];
+  editSource?: ImageRef; // image this one was edited from
+  variants?: GeneratedImage[]; // batch results, shown as a grid
+  generation?: ImageGenerationInfo;
   videoUri?: string; // url
+  videoJobId?: string; // set on the placeholder while a Veo render is in progress
   audioData?: string; // base64
+  audioMimeType?: string; // e.g. audio/webm for call recordings
+  speechVoice?: string; // voice of cached read-aloud audio
+  transcribed?: boolean; // spoken during a Live call
   isThinking?: boolean;
+  thoughts?: string; // thought summary, shown separately from the answer
+  isError?: boolean;
+  errorKind?: ErrorKind;
+  retryOf?: { messageId: string; editSource?: ImageRef }; // failed request: the user message to resend and the image it edited
+  toolCalls?: ToolCallRecord[]; // function calls made while producing this reply
   grounding?: GroundingChunk[];
+  groundingSupports?: GroundingSupport[];
+  searchQueries?: string[];
+  usage?: TokenUsage;
   timestamp: number;
+  storedBlobs?: ('image' | 'audioData' | 'video' | 'attachments' | 'variants')[]; // persisted payloads not loaded yet
+}
+
+export interface Thread {
+  id: string;
+  mode: AppMode;
+  title: string;
+  pinned: boolean;
+  personaId?: string;
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface ChatConfig {
   useSearch: boolean;
   useMaps: boolean;
   useThinking: boolean;
+  thinkingBudget?: number; // tokens; the model's maximum when unset
   modelTier: ModelTier;
+  personaId?: string; // Persona id; the default persona when unset
 }
 
 export interface VideoConfig {
   aspectRatio: '16:9' | '9:16';
   resolution: '720p' | '1080p';
+  model: 'fast' | 'quality'; // Veo 3.1 Fast or the full Veo 3.1 model
+  durationSeconds: 4 | 6 | 8;
+  count: number; // separate renders submitted in parallel
+  negativePrompt?: string;
+}
+
+export type VideoJobStatus = 'starting' | 'running' | 'downloading' | 'done' | 'failed' | 'cancelled' | 'timeout';
+
+// A background Veo render; see services/videoJobs.ts
+export interface VideoJob {
+  id: string;
+  threadId: string | null;
+  messageId: string; // placeholder message the result replaces
+  prompt: string;
+  config: VideoConfig;
+  operationName?: string; // known once Veo has accepted the job
+  status: VideoJobStatus;
+  error?: string;
+  videoUri?: string; // object URL of the finished video (not persisted)
+  createdAt: number;
+  finishedAt?: number;
 }
 
 export interface ImageConfig {
   aspectRatio: '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
   size: '1K' | '2K' | '4K'; // Only for Pro
+  count: number; // variants generated in parallel per prompt
+  seed?: number; // fixed seed for reproducible results; random when unset
+  stylePreset?: string; // StylePreset id
+  negativePrompt?: string;
 }
 
-// Augment window for Veo key selection
-declare global {
-  interface AIStudio {
-    hasSelectedApiKey: () => Promise<boolean>;
-    openSelectKey: () => Promise<void>;
-  }
+export type ResponseStyle = 'concise' | 'balanced' | 'detailed';
 
+// Who the assistant is: used for chat system instructions, Live calls and TTS
+export interface Persona {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  voice: string; // prebuilt voice name
+  language?: string; // BCP-47 code; unset lets the model follow the user
+  style: ResponseStyle;
+  builtIn?: boolean;
+}
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  prompt: string; // appended to the user's prompt
+  negativePrompt?: string;
+  custom?: boolean;
+}
+
+export interface PodcastSpeaker {
+  name: string; // must appear verbatim in the script for multi-speaker TTS
+  voice: string;
+}
+
+export interface PodcastLine {
+  speaker: 0 | 1; // index into PodcastScript.speakers
+  text: string;
+}
+
+export interface PodcastScript {
+  title: string;
+  speakers: [PodcastSpeaker, PodcastSpeaker];
+  lines: PodcastLine[];
+}
+
+// Augment window for the prefixed AudioContext in older Safari
+declare global {
   interface Window {
-    // aistudio is already defined in the environment with type AIStudio
     webkitAudioContext?: typeof AudioContext;
   }
 }
\ No newline at end of file
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
@@ -8,16 +9,27 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The API key lives in the proxy server (npm run server), never in the bundle
+        proxy: {
+          '/api': { target: `http://localhost:${env.PORT || 3001}`, ws: true },
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // gemini (default) or mock, which answers offline; see services/aiProvider.ts.
+        // Tests always run against the mock.
+        'process.env.AI_PROVIDER': JSON.stringify(mode === 'test' ? 'mock' : env.AI_PROVIDER || 'gemini'),
+        // JSON that remaps or adjusts models; see services/models.ts
+        'process.env.MODEL_OVERRIDES': JSON.stringify(env.MODEL_OVERRIDES || '')
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        environment: 'jsdom',
+        setupFiles: ['./tests/setup.ts'],
       }
     };
 });